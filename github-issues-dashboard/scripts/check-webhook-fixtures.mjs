@@ -0,0 +1,66 @@
+// Feeds the recorded webhook payloads through signature checking and issue reference parsing, no server needed.
+//
+//   npm run webhook:check
+//
+// Each fixture is signed with a throwaway secret and must verify, and must fail once tampered with.
+// Pull request fixtures must link at least one issue through a closing keyword.
+import assert from "node:assert/strict"
+import { createHmac } from "node:crypto"
+import { readdir, readFile } from "node:fs/promises"
+import path from "node:path"
+import ts from "typescript"
+
+const root = path.dirname(path.dirname(new URL(import.meta.url).pathname))
+const fixturesDir = path.join(root, "fixtures/webhooks")
+
+// The module has no app imports, so transpiling it on its own is enough to load it in Node
+const source = await readFile(path.join(root, "src/app/utils/webhook-references.ts"), "utf8")
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+})
+const { verifySignature, referencedIssues } = await import(
+  `data:text/javascript;base64,${Buffer.from(outputText).toString("base64")}`
+)
+
+const secret = "fixture-check"
+const sign = (body) => `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+
+let failures = 0
+function check(name, fn) {
+  try {
+    fn()
+    console.log(`ok   ${name}`)
+  } catch (error) {
+    failures++
+    console.log(`FAIL ${name}\n     ${error.message}`)
+  }
+}
+
+check("references need a closing keyword", () => {
+  const references = referencedIssues("Fixes #42, see #7, colour #123456, resolves octo/other#3", "acme/widgets")
+  assert.deepEqual([...references.keys()], ["acme/widgets#42", "octo/other#3"])
+})
+
+for (const file of (await readdir(fixturesDir)).filter((name) => name.endsWith(".json")).sort()) {
+  const body = await readFile(path.join(fixturesDir, file), "utf8")
+  const event = file.split(".")[0]
+
+  check(`${file}: signature`, () => {
+    assert.equal(verifySignature(body, sign(body), secret), true, "signed body was rejected")
+    assert.equal(verifySignature(`${body} `, sign(body), secret), false, "tampered body was accepted")
+    assert.equal(verifySignature(body, null, secret), false, "unsigned body was accepted")
+  })
+
+  check(`${file}: payload`, () => {
+    const payload = JSON.parse(body)
+    assert.equal(typeof payload.repository?.full_name, "string", "missing repository.full_name")
+    const subject = event === "pull_request" ? payload.pull_request : payload.issue
+    assert.equal(typeof subject?.number, "number", "missing the issue or pull request number")
+    if (event === "pull_request") {
+      const references = referencedIssues(subject.body, payload.repository.full_name.toLowerCase())
+      assert.ok(references.size > 0, "the pull request body closes no issue")
+    }
+  })
+}
+
+process.exit(failures === 0 ? 0 : 1)
@@ -0,0 +1,29 @@
+// Local stand-in for a Slack or Discord incoming webhook: prints every digest it receives.
+//
+//   npm run digest:listen -- 4000
+//   DIGEST_WEBHOOK_URL=http://localhost:4000/hook npm run dev
+//
+// Pass a second argument to answer with another status, e.g. `-- 4000 500` to test delivery failures.
+import { createServer } from "node:http"
+
+const [port = "4000", status = "200"] = process.argv.slice(2)
+
+const server = createServer(async (req, res) => {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  const body = Buffer.concat(chunks).toString("utf8")
+
+  console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} (${req.headers["content-type"] ?? "no content type"})`)
+  try {
+    console.log(JSON.stringify(JSON.parse(body), null, 2))
+  } catch {
+    console.log(body)
+  }
+
+  res.writeHead(Number(status), { "Content-Type": "text/plain" })
+  res.end(Number(status) < 400 ? "ok" : "error")
+})
+
+server.listen(Number(port), () => {
+  console.log(`Listening for digests on http://localhost:${port}/hook`)
+})
@@ -0,0 +1,35 @@
+// Replays a recorded webhook payload against a running dashboard, signed the way GitHub signs it.
+//
+//   GITHUB_WEBHOOK_SECRET=dev-secret npm run webhook:replay -- fixtures/webhooks/issues.assigned.json
+//
+// The event name is taken from the file name (`<event>.<action>.json`); the target URL defaults to localhost.
+import { createHmac } from "node:crypto"
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+
+const [fixture, url = "http://localhost:3000/api/webhooks/github"] = process.argv.slice(2)
+const secret = process.env.GITHUB_WEBHOOK_SECRET
+
+if (!fixture || !secret) {
+  console.error("Usage: GITHUB_WEBHOOK_SECRET=<secret> node scripts/replay-webhook.mjs <fixture.json> [url]")
+  process.exit(1)
+}
+
+const body = await readFile(fixture, "utf8")
+const event = path.basename(fixture).split(".")[0]
+const signature = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+
+const res = await fetch(url, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "X-GitHub-Event": event,
+    "X-GitHub-Delivery": crypto.randomUUID(),
+    "X-Hub-Signature-256": signature,
+  },
+  body,
+})
+
+console.log(`${res.status} ${res.statusText}`)
+console.log(await res.text())
+process.exit(res.ok ? 0 : 1)
@@ -0,0 +1,19 @@
+// Runs every *.test.ts under src/ once with Node's built-in test runner.
+//
+//   npm test
+import { spawnSync } from "node:child_process"
+import { readdir } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)))
+const files = (await readdir(path.join(root, "src"), { recursive: true }))
+  .filter((file) => file.endsWith(".test.ts"))
+  .sort()
+  .map((file) => path.join("src", file))
+
+const { status } = spawnSync(process.execPath, ["--import", "./scripts/register-ts.mjs", "--test", ...files], {
+  cwd: root,
+  stdio: "inherit",
+})
+process.exit(status ?? 1)
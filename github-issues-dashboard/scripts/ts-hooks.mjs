@@ -0,0 +1,42 @@
+// Node module hooks that let `node --test` load the app's TypeScript: resolves the "@/" alias and
+// extensionless imports, and strips types with the compiler already installed for `tsc`.
+import { existsSync } from "node:fs"
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath, pathToFileURL } from "node:url"
+import ts from "typescript"
+
+const src = path.join(path.dirname(path.dirname(fileURLToPath(import.meta.url))), "src")
+const EXTENSIONS = [".ts", ".tsx", "/index.ts"]
+
+function sourceFile(base) {
+  if (existsSync(base) && /\.tsx?$/.test(base)) return base
+  return EXTENSIONS.map((extension) => base + extension).find((candidate) => existsSync(candidate))
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  let base = null
+  if (specifier.startsWith("@/")) {
+    base = path.join(src, specifier.slice(2))
+  } else if (specifier.startsWith(".") && context.parentURL?.startsWith("file:")) {
+    base = path.resolve(path.dirname(fileURLToPath(context.parentURL)), specifier)
+  }
+  const file = base && sourceFile(base)
+  if (file) return { url: pathToFileURL(file).href, shortCircuit: true }
+  try {
+    return await nextResolve(specifier, context)
+  } catch (error) {
+    // Packages without an exports map, like next, are imported as "next/server" the way bundlers allow
+    if (base || error?.code !== "ERR_MODULE_NOT_FOUND") throw error
+    return nextResolve(`${specifier}.js`, context)
+  }
+}
+
+export async function load(url, context, nextLoad) {
+  if (!/\.tsx?$/.test(url)) return nextLoad(url, context)
+  const { outputText } = ts.transpileModule(await readFile(fileURLToPath(url), "utf8"), {
+    fileName: fileURLToPath(url),
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, jsx: ts.JsxEmit.ReactJSX },
+  })
+  return { format: "module", source: outputText, shortCircuit: true }
+}
@@ -0,0 +1,2 @@
+// Deep links such as /vercel/next.js/tracking/2026-10 render the dashboard, which reads its view from the URL
+export { default } from "@/app/page"
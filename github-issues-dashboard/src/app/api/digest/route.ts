@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AgingRules } from "@/app/config/aging";
+import type { DigestDeliveryResponse, DigestFormat, DigestPeriod, DigestResponse } from "@/app/types/digest";
+import type { TrackingErrorResponse } from "@/app/types/tracking";
+import {
+  buildDigest,
+  deliverDigest,
+  isDigestFormat,
+  isDigestPeriod,
+  renderDigest,
+  renderMarkdown,
+  webhookFormatFor,
+} from "@/app/utils/digest";
+import { sanitizeAgingRules } from "@/app/utils/aging";
+import { repoKeyOf, repoNameError } from "@/app/utils/helpers";
+import { listTrackedIssues } from "@/app/utils/tracking-store";
+
+type DigestRequest = { repoKey: string; period: DigestPeriod; end: Date; rules: AgingRules };
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<TrackingErrorResponse>({ error }, { status });
+}
+
+// DIGEST_AGING_RULES holds JSON like {"inactiveDays":14,"noPullRequestDays":7}; unset days use the defaults
+function serverAgingRules(): AgingRules {
+  const configured = process.env.DIGEST_AGING_RULES?.trim();
+  if (!configured) return sanitizeAgingRules(null);
+  try {
+    return sanitizeAgingRules(JSON.parse(configured));
+  } catch {
+    console.error("DIGEST_AGING_RULES is not valid JSON; using the default aging rules");
+    return sanitizeAgingRules(null);
+  }
+}
+
+// Days a request leaves out come from the server setting; values that are not whole days >= 0 are an error
+function parseRules(value: unknown): AgingRules | string {
+  const base = serverAgingRules();
+  if (value === undefined || value === null) return base;
+  if (typeof value !== "object" || Array.isArray(value)) return "rules must be an object of day counts";
+  const given = value as Record<string, unknown>;
+  const rules = sanitizeAgingRules(given, base);
+  for (const key of Object.keys(base) as (keyof AgingRules)[]) {
+    if (given[key] !== undefined && given[key] !== rules[key]) return `rules.${key} must be a whole number of days`;
+  }
+  return rules;
+}
+
+// Shared by GET (query string) and POST (JSON body); returns an error message when invalid
+function parseDigestRequest(repo: unknown, period: unknown, end: unknown, rules: unknown): DigestRequest | string {
+  const [owner = "", name = "", ...rest] = typeof repo === "string" ? repo.split("/") : [];
+  const nameError = !owner || !name || rest.length > 0 ? "repo must look like owner/repo" : repoNameError(owner, name);
+  if (nameError) return nameError;
+  if (!isDigestPeriod(period)) return 'period must be "week" or "month"';
+
+  const endDate = end === undefined || end === null || end === "" ? new Date() : new Date(String(end));
+  if (Number.isNaN(endDate.getTime())) return "end must be an ISO date";
+  const agingRules = parseRules(rules);
+  if (typeof agingRules === "string") return agingRules;
+  return { repoKey: repoKeyOf(owner, name), period, end: endDate, rules: agingRules };
+}
+
+async function digestFor(request: DigestRequest) {
+  const issues = await listTrackedIssues({ repoKey: request.repoKey });
+  return buildDigest(request.repoKey, issues, request.period, request.end, request.rules);
+}
+
+// Day counts are numbers in the query string; anything else is passed on so parseRules can reject it
+function rulesFromQuery(searchParams: URLSearchParams): Record<string, unknown> {
+  const rules: Record<string, unknown> = {};
+  for (const key of ["inactiveDays", "noPullRequestDays"] as const) {
+    const value = searchParams.get(key);
+    if (value !== null) rules[key] = value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+  }
+  return rules;
+}
+
+// GET /api/digest?repo=owner/repo&period=week&end=2026-10-18&format=markdown&inactiveDays=10
+// Without `format` the digest comes back as JSON alongside its Markdown rendering.
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const request = parseDigestRequest(
+    searchParams.get("repo"),
+    searchParams.get("period") ?? "week",
+    searchParams.get("end"),
+    rulesFromQuery(searchParams)
+  );
+  if (typeof request === "string") return errorResponse(request, 400);
+
+  const format = searchParams.get("format");
+  if (format !== null && !isDigestFormat(format)) {
+    return errorResponse('format must be "markdown", "slack" or "discord"', 400);
+  }
+
+  const digest = await digestFor(request);
+  if (format === "markdown") {
+    return new NextResponse(renderMarkdown(digest), { headers: { "Content-Type": "text/markdown; charset=utf-8" } });
+  }
+  if (format) {
+    return new NextResponse(renderDigest(digest, format), { headers: { "Content-Type": "application/json" } });
+  }
+  return NextResponse.json<DigestResponse>({ digest, markdown: renderMarkdown(digest) });
+}
+
+// POST { repo, period, end?, format?, rules? } sends the digest to DIGEST_WEBHOOK_URL. The URL is only
+// read from the environment so the endpoint cannot be used to make requests to arbitrary hosts.
+export async function POST(req: NextRequest) {
+  const webhookUrl = process.env.DIGEST_WEBHOOK_URL?.trim();
+  if (!webhookUrl) {
+    return errorResponse("DIGEST_WEBHOOK_URL is not configured", 503);
+  }
+
+  const body = await req.json().catch(() => null);
+  const request = parseDigestRequest(body?.repo, body?.period ?? "week", body?.end, body?.rules);
+  if (typeof request === "string") return errorResponse(request, 400);
+
+  const requested = body?.format ?? process.env.DIGEST_WEBHOOK_FORMAT?.trim();
+  if (requested && !isDigestFormat(requested)) {
+    return errorResponse('format must be "markdown", "slack" or "discord"', 400);
+  }
+
+  let format: DigestFormat;
+  try {
+    format = requested || webhookFormatFor(webhookUrl);
+  } catch {
+    return errorResponse("DIGEST_WEBHOOK_URL is not a valid URL", 503);
+  }
+
+  const digest = await digestFor(request);
+  let res: Response;
+  try {
+    res = await deliverDigest(webhookUrl, format, digest);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return errorResponse(`Could not reach the digest webhook: ${reason}`, 502);
+  }
+
+  if (!res.ok) {
+    return errorResponse(`The digest webhook answered ${res.status}`, 502);
+  }
+  return NextResponse.json<DigestDeliveryResponse>({ delivered: true, format, status: res.status, digest });
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import {
+  badRequest,
+  performIssueWrites,
+  readJsonBody,
+  requireJsonBody,
+  stringList,
+  type IssueRouteContext,
+} from "@/app/utils/issue-actions";
+
+async function assigneesFrom(req: NextRequest) {
+  return stringList((await readJsonBody(req))?.assignees);
+}
+
+// GitHub silently skips logins that cannot be assigned, so compare the returned issue with the request
+export async function POST(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const assignees = await assigneesFrom(req);
+  if (!assignees) return badRequest("assignees must be a non-empty array of logins");
+  return performIssueWrites(
+    req,
+    context,
+    [{ method: "POST", path: "/assignees", body: { assignees } }],
+    (issue) => {
+      const assigned = new Set((issue.assignees ?? []).map((assignee) => assignee.login.toLowerCase()));
+      const skipped = assignees.filter((login) => !assigned.has(login.toLowerCase()));
+      return skipped.length > 0
+        ? `GitHub did not assign ${skipped.join(", ")}. Only people with access to the repository can be assigned.`
+        : null;
+    }
+  );
+}
+
+export async function DELETE(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const assignees = await assigneesFrom(req);
+  if (!assignees) return badRequest("assignees must be a non-empty array of logins");
+  return performIssueWrites(req, context, [{ method: "DELETE", path: "/assignees", body: { assignees } }]);
+}
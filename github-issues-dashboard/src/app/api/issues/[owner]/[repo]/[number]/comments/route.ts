@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import {
+  badRequest,
+  performIssueWrites,
+  readJsonBody,
+  requireJsonBody,
+  type IssueRouteContext,
+} from "@/app/utils/issue-actions";
+
+export async function POST(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const body = (await readJsonBody(req))?.body;
+  if (typeof body !== "string" || !body.trim()) {
+    return badRequest("body must be a non-empty string");
+  }
+  return performIssueWrites(req, context, [{ method: "POST", path: "/comments", body: { body } }]);
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import {
+  badRequest,
+  performIssueWrites,
+  readJsonBody,
+  requireJsonBody,
+  stringList,
+  type IssueRouteContext,
+} from "@/app/utils/issue-actions";
+
+async function labelsFrom(req: NextRequest) {
+  return stringList((await readJsonBody(req))?.labels);
+}
+
+// Labels that don't exist in the repository yet are created by GitHub
+export async function POST(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const labels = await labelsFrom(req);
+  if (!labels) return badRequest("labels must be a non-empty array of label names");
+  return performIssueWrites(req, context, [{ method: "POST", path: "/labels", body: { labels } }]);
+}
+
+// GitHub removes one label per request; a label that is already gone is not an error
+export async function DELETE(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const labels = await labelsFrom(req);
+  if (!labels) return badRequest("labels must be a non-empty array of label names");
+  return performIssueWrites(
+    req,
+    context,
+    labels.map((label) => ({ method: "DELETE", path: `/labels/${encodeURIComponent(label)}`, allowStatus: [404] }))
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { issuesErrorResponse, networkErrorResponse, resolveToken } from "@/app/utils/github";
+import { repoNameError } from "@/app/utils/helpers";
+import {
+  badRequest,
+  performIssueWrites,
+  readJsonBody,
+  requireJsonBody,
+  type IssueRouteContext,
+} from "@/app/utils/issue-actions";
+import { issueDetailResponse } from "@/app/utils/issue-detail";
+
+const STATE_REASONS = ["completed", "not_planned", "reopened"];
+
+// GET returns the issue with its rendered body, comments, reactions and linked pull requests
+export async function GET(req: NextRequest, context: IssueRouteContext) {
+  const { owner, repo, number } = await context.params;
+  const nameError = repoNameError(owner, repo);
+  if (nameError) {
+    return issuesErrorResponse("invalid_request", nameError, 400);
+  }
+  const issueNumber = Number(number);
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    return issuesErrorResponse("invalid_request", "Issue number must be a positive integer", 400);
+  }
+
+  const fresh = new URL(req.url).searchParams.get("fresh") === "1";
+  try {
+    return await issueDetailResponse(owner, repo, issueNumber, resolveToken(req), fresh);
+  } catch (error) {
+    return networkErrorResponse(error);
+  }
+}
+
+// PATCH { state: "closed", state_reason?: "completed" | "not_planned" } closes; { state: "open" } reopens
+export async function PATCH(req: NextRequest, context: IssueRouteContext) {
+  const notJson = requireJsonBody(req);
+  if (notJson) return notJson;
+  const body = await readJsonBody(req);
+  if (body?.state !== "open" && body?.state !== "closed") {
+    return badRequest('state must be "open" or "closed"');
+  }
+  if (body.state_reason !== undefined && !STATE_REASONS.includes(body.state_reason as string)) {
+    return badRequest(`state_reason must be one of ${STATE_REASONS.join(", ")}`);
+  }
+
+  return performIssueWrites(req, context, [
+    { method: "PATCH", path: "", body: { state: body.state, state_reason: body.state_reason } },
+  ]);
+}
@@ -1,43 +1,149 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { CacheStatus, Issue, IssuesResponse, RateLimit } from "@/app/types/github";
+import {
+  cachedGithubFetch,
+  errorCodeForStatus,
+  issuesErrorResponse,
+  isRateLimited,
+  lowestRateLimit,
+  networkErrorResponse,
+  nextPageFromLink,
+  parseRateLimit,
+  resolveToken,
+} from "@/app/utils/github";
+import { repoNameError } from "@/app/utils/helpers";
+import { fetchLinkedPullRequests, fetchLinkedPullRequestsFromTimeline, isMerged } from "@/app/utils/pull-requests";
+
+const PER_PAGE = 50;
+
+// Query params passed through to GitHub as-is when present
+const FILTER_PARAMS = ["state", "labels", "assignee", "milestone", "since", "sort", "direction"] as const;
+
+function buildIssuesQuery(searchParams: URLSearchParams, page: number): URLSearchParams {
+  const query = new URLSearchParams({ state: "all", per_page: String(PER_PAGE), page: String(page) });
+  for (const key of FILTER_PARAMS) {
+    const value = searchParams.get(key)?.trim();
+    if (value) query.set(key, value);
+  }
+  return query;
+}
+
+// GitHub's own messages ("Not Found", "Bad credentials") don't say what to do next
+function describeListError(status: number, message: string, repoKey: string, authenticated: boolean): string {
+  switch (status) {
+    case 401:
+      return "GitHub rejected the token. Check that it is valid and has not expired.";
+    case 403:
+      return `Access to ${repoKey} was denied: ${message}`;
+    case 404:
+      return authenticated
+        ? `Repository ${repoKey} was not found, or the token cannot see it.`
+        : `Repository ${repoKey} was not found. If it is private, add a token that can read it.`;
+    default:
+      return message;
+  }
+}
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
-  const owner = searchParams.get("owner"); 
-  const repo = searchParams.get("repo");     
+  const owner = searchParams.get("owner")?.trim() ?? "";
+  const repo = searchParams.get("repo")?.trim() ?? "";
+  const token = resolveToken(req);
+  const fresh = searchParams.get("fresh") === "1";
+  const page = Math.max(1, Number.parseInt(searchParams.get("page") ?? "1", 10) || 1);
 
-  // Fetch to REST public API from GitHub
-  const issuesRes = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}/issues?state=all&per_page=50`
+  const nameError = repoNameError(owner, repo);
+  if (nameError) {
+    return issuesErrorResponse("invalid_request", nameError, 400);
+  }
+
+  try {
+    return await listIssues(owner, repo, token, page, fresh, searchParams);
+  } catch (error) {
+    return networkErrorResponse(error);
+  }
+}
+
+async function listIssues(
+  owner: string,
+  repo: string,
+  token: string | null,
+  page: number,
+  fresh: boolean,
+  searchParams: URLSearchParams
+) {
+  // Fetch issues from the GitHub REST API, authenticated when a token is available
+  const issuesRes = await cachedGithubFetch(
+    `/repos/${owner}/${repo}/issues?${buildIssuesQuery(searchParams, page)}`,
+    token,
+    { fresh }
   );
+  let rateLimit: RateLimit | null = parseRateLimit(issuesRes.headers);
 
-  const issuesData = await issuesRes.json();
+  if (isRateLimited(issuesRes)) {
+    return issuesErrorResponse("rate_limited", "GitHub API rate limit exceeded", 429, rateLimit);
+  }
 
-  // Get all issues and their associated PRs
-  const issues = await Promise.all((Array.isArray(issuesData) ? issuesData : [])
-    .filter((i: any) => !i.pull_request)
-    .map(async (issue: any) => {
-      // Check if there's a PR linked to this issue
-      const prRes = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/issues/${issue.number}/timeline?per_page=100`
-      );
-      const timeline = await prRes.json();
-      
-      // Find if there's a merged PR that references this issue
-      const mergedPR = Array.isArray(timeline) && timeline.find((event: any) => 
-        event.event === 'merged' && 
-        event.commit_url && 
-        event.commit_id
-      );
+  const issuesData = await issuesRes.json().catch(() => null);
+
+  if (!issuesRes.ok) {
+    const message = issuesData?.message ?? `GitHub responded with ${issuesRes.status}`;
+    return issuesErrorResponse(
+      errorCodeForStatus(issuesRes.status),
+      describeListError(issuesRes.status, message, `${owner}/${repo}`, !!token),
+      issuesRes.status,
+      rateLimit
+    );
+  }
 
-      return {
-        ...issue,
-        merged: !!mergedPR
-      };
+  if (!Array.isArray(issuesData)) {
+    return issuesErrorResponse("github_error", "GitHub returned an unexpected response", 502, rateLimit);
+  }
+
+  const pageIssues: Issue[] = issuesData.filter((i: Issue & { pull_request?: unknown }) => !i.pull_request);
+
+  let issues: Issue[];
+  const warnings: string[] = [];
+  if (token) {
+    // One batched GraphQL query resolves linked PRs for the whole page
+    const { linked, errors, rateLimit: graphqlRateLimit } = await fetchLinkedPullRequests(
+      owner,
+      repo,
+      pageIssues.map((issue) => issue.number),
+      token,
+      { fresh }
+    );
+    rateLimit = lowestRateLimit(rateLimit, graphqlRateLimit);
+    if (errors.length > 0) {
+      warnings.push(`Linked pull requests could not be loaded: ${errors.join("; ")}`);
+    }
+    issues = pageIssues.map((issue) => {
+      const linkedPullRequests = linked.get(issue.number) ?? [];
+      return { ...issue, linkedPullRequests, merged: isMerged(linkedPullRequests) };
+    });
+  } else {
+    issues = await Promise.all(pageIssues.map(async (issue) => {
+      const timeline = await fetchLinkedPullRequestsFromTimeline(
+        owner,
+        repo,
+        issue.number,
+        token,
+        { fresh }
+      );
+      rateLimit = lowestRateLimit(rateLimit, timeline.rateLimit);
+      return { ...issue, linkedPullRequests: timeline.pulls, merged: timeline.merged };
     }));
+  }
 
-  return NextResponse.json({
+  return NextResponse.json<IssuesResponse>({
     repo: `${owner}/${repo}`,
     count: issues.length,
     issues,
+    page,
+    nextPage: nextPageFromLink(issuesRes.headers.get("link")),
+    rateLimit,
+    authenticated: !!token,
+    cache: (issuesRes.headers.get("x-cache") as CacheStatus | null) ?? "BYPASS",
+    warnings,
   });
 }
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Milestone, MilestonesResponse } from "@/app/types/github";
+import {
+  cachedGithubFetch,
+  errorCodeForStatus,
+  issuesErrorResponse,
+  isRateLimited,
+  networkErrorResponse,
+  parseRateLimit,
+  resolveToken,
+} from "@/app/utils/github";
+import { repoNameError } from "@/app/utils/helpers";
+
+// GET /api/milestones?owner=vercel&repo=next.js — open and closed milestones, soonest due first
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const owner = searchParams.get("owner")?.trim() ?? "";
+  const repo = searchParams.get("repo")?.trim() ?? "";
+  const fresh = searchParams.get("fresh") === "1";
+
+  const nameError = repoNameError(owner, repo);
+  if (nameError) {
+    return issuesErrorResponse("invalid_request", nameError, 400);
+  }
+
+  try {
+    const res = await cachedGithubFetch(
+      `/repos/${owner}/${repo}/milestones?state=all&sort=due_on&direction=asc&per_page=100`,
+      resolveToken(req),
+      { fresh }
+    );
+    const rateLimit = parseRateLimit(res.headers);
+    if (isRateLimited(res)) {
+      return issuesErrorResponse("rate_limited", "GitHub API rate limit exceeded", 429, rateLimit);
+    }
+
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      const message =
+        res.status === 404
+          ? `Repository ${owner}/${repo} was not found, or the token cannot see it.`
+          : (data?.message ?? `GitHub responded with ${res.status}`);
+      return issuesErrorResponse(errorCodeForStatus(res.status), message, res.status, rateLimit);
+    }
+    if (!Array.isArray(data)) {
+      return issuesErrorResponse("github_error", "GitHub returned an unexpected response", 502, rateLimit);
+    }
+
+    const milestones: Milestone[] = data.map((milestone: Milestone) => ({
+      id: milestone.id,
+      number: milestone.number,
+      title: milestone.title,
+      state: milestone.state,
+      created_at: milestone.created_at,
+      due_on: milestone.due_on,
+    }));
+    return NextResponse.json<MilestonesResponse>({ milestones, rateLimit });
+  } catch (error) {
+    return networkErrorResponse(error);
+  }
+}
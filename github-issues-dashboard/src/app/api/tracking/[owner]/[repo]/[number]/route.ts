@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TrackedIssue } from "@/app/types/contributor";
+import type { TrackingErrorResponse, TrackingItemResponse } from "@/app/types/tracking";
+import { repoKeyOf } from "@/app/utils/helpers";
+import { recordChanges } from "@/app/utils/history";
+import { migrateLegacyPeriod } from "@/app/utils/periods";
+import { validateTrackedIssue } from "@/app/utils/tracking-export";
+import {
+  deleteTrackedIssues,
+  getTrackedIssue,
+  modifyTrackedIssue,
+  upsertTrackedIssue,
+} from "@/app/utils/tracking-store";
+
+type RouteContext = { params: Promise<{ owner: string; repo: string; number: string }> };
+
+// Fields a client may change with PATCH; GitHub data only arrives through PUT
+const PATCHABLE_FIELDS = ["status", "statusLocked", "contributor", "notes", "period"] as const;
+
+async function resolveParams(context: RouteContext) {
+  const { owner, repo, number } = await context.params;
+  const issueNumber = Number(number);
+  return {
+    repoKey: repoKeyOf(owner, repo),
+    number: Number.isInteger(issueNumber) && issueNumber > 0 ? issueNumber : null,
+  };
+}
+
+function notFound(repoKey: string, number: number) {
+  return NextResponse.json<TrackingErrorResponse>(
+    { error: `${repoKey}#${number} is not tracked` },
+    { status: 404 }
+  );
+}
+
+function invalidNumber() {
+  return NextResponse.json<TrackingErrorResponse>({ error: "Issue number must be a positive integer" }, { status: 400 });
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  const { repoKey, number } = await resolveParams(context);
+  if (number === null) return invalidNumber();
+
+  const issue = await getTrackedIssue(repoKey, number);
+  if (!issue) return notFound(repoKey, number);
+  return NextResponse.json<TrackingItemResponse>({ issue });
+}
+
+// Creates or replaces the tracked issue; the path decides repo and number
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { repoKey, number } = await resolveParams(context);
+  if (number === null) return invalidNumber();
+
+  const body = await req.json().catch(() => null);
+  const errors: string[] = [];
+  const issue = validateTrackedIssue({ ...body, repoKey, number }, "Body", errors);
+  if (!issue) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "Invalid tracked issue", details: errors },
+      { status: 400 }
+    );
+  }
+
+  const created = await upsertTrackedIssue(issue);
+  return NextResponse.json<TrackingItemResponse>({ issue }, { status: created ? 201 : 200 });
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const { repoKey, number } = await resolveParams(context);
+  if (number === null) return invalidNumber();
+
+  const body = await req.json().catch(() => null);
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json<TrackingErrorResponse>({ error: "Body must be a JSON object" }, { status: 400 });
+  }
+
+  // Scripts written before custom periods still send `monthYear`
+  const patch = migrateLegacyPeriod(body as Record<string, unknown>);
+  const changes: Partial<TrackedIssue> = {};
+  for (const field of PATCHABLE_FIELDS) {
+    if (field in patch) Object.assign(changes, { [field]: patch[field] });
+  }
+
+  // Read, validate and write in one store update, so concurrent patches and webhook refreshes
+  // can't overwrite each other's history entries
+  const errors: string[] = [];
+  const issue = await modifyTrackedIssue(repoKey, number, (existing) => {
+    // Validate the merged result so a patch can't produce an invalid record, and store what validation kept
+    const patched = validateTrackedIssue({ ...existing, ...changes }, "Body", errors);
+    if (!patched) return existing;
+    // Patches are edits by a person or script, so they are recorded as manual changes
+    return recordChanges(existing, patched, "manual");
+  });
+  if (!issue) return notFound(repoKey, number);
+  if (errors.length > 0) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "Invalid changes", details: errors },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json<TrackingItemResponse>({ issue });
+}
+
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  const { repoKey, number } = await resolveParams(context);
+  if (number === null) return invalidNumber();
+
+  const removed = await deleteTrackedIssues({ repoKey, number });
+  if (removed === 0) return notFound(repoKey, number);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import type { TrackingEventPayload } from "@/app/types/webhooks";
+import { subscribeTrackingUpdates } from "@/app/utils/tracking-events";
+
+export const dynamic = "force-dynamic";
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25_000;
+
+// Server-sent events: one `tracking` event per batch of tracked issues changed by a webhook
+export async function GET(req: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  // The stream may already be closed by cancel() when the request aborts; closing or writing again throws
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const unsubscribe = subscribeTrackingUpdates((issues) => {
+        const payload: TrackingEventPayload = { issues };
+        send(`event: tracking\ndata: ${JSON.stringify(payload)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      req.signal.addEventListener("abort", () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
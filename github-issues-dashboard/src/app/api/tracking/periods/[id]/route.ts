@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { PeriodItemResponse, TrackingErrorResponse } from "@/app/types/tracking";
+import { sanitizePeriodDefinitions } from "@/app/utils/periods";
+import { deletePeriodDefinition, upsertPeriodDefinition } from "@/app/utils/tracking-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Creates or replaces a period definition; the path decides its id
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const body = await req.json().catch(() => null);
+  const [definition] = sanitizePeriodDefinitions([{ ...body, id }]);
+  if (!definition) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "Invalid period definition: expected a range, sprint or milestone" },
+      { status: 400 }
+    );
+  }
+
+  const created = await upsertPeriodDefinition(definition);
+  return NextResponse.json<PeriodItemResponse>({ definition }, { status: created ? 201 : 200 });
+}
+
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  if (!(await deletePeriodDefinition(id))) {
+    return NextResponse.json<TrackingErrorResponse>({ error: `Period ${id} does not exist` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
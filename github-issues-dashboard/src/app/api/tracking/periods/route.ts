@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import type { PeriodListResponse } from "@/app/types/tracking";
+import { listPeriodDefinitions } from "@/app/utils/tracking-store";
+
+// GET /api/tracking/periods — the date ranges, sprint cadences and milestones tracked issues can refer to
+export async function GET() {
+  return NextResponse.json<PeriodListResponse>({ definitions: await listPeriodDefinitions() });
+}
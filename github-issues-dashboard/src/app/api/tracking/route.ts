@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TrackingErrorResponse, TrackingItemResponse, TrackingListResponse } from "@/app/types/tracking";
+import { validateTrackedIssue } from "@/app/utils/tracking-export";
+import { createTrackedIssue, deleteTrackedIssues, listTrackedIssues } from "@/app/utils/tracking-store";
+
+// `month` is the name the period filter had before custom periods
+function periodParam(searchParams: URLSearchParams): string | null {
+  return searchParams.get("period") ?? searchParams.get("month");
+}
+
+// GET /api/tracking?repo=owner/repo&period=sprint:abc:3 — both filters optional
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const issues = await listTrackedIssues({
+    repoKey: searchParams.get("repo"),
+    period: periodParam(searchParams),
+  });
+
+  return NextResponse.json<TrackingListResponse>({ count: issues.length, issues });
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const errors: string[] = [];
+  const issue = validateTrackedIssue(body, "Body", errors);
+  if (!issue) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "Invalid tracked issue", details: errors },
+      { status: 400 }
+    );
+  }
+
+  if (!(await createTrackedIssue(issue))) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: `${issue.repoKey}#${issue.number} is already tracked` },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json<TrackingItemResponse>({ issue }, { status: 201 });
+}
+
+// Bulk delete scoped to a repo and/or period; an unscoped delete is refused
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const repoKey = searchParams.get("repo");
+  const period = periodParam(searchParams);
+  if (!repoKey && !period) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "Pass repo and/or period to choose what to delete" },
+      { status: 400 }
+    );
+  }
+
+  const removed = await deleteTrackedIssues({ repoKey, period });
+  return NextResponse.json({ removed });
+}
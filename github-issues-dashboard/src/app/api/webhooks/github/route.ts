@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TrackingErrorResponse } from "@/app/types/tracking";
+import type { WebhookResponse } from "@/app/types/webhooks";
+import { trackedIssueKey } from "@/app/utils/helpers";
+import { publishTrackingUpdate } from "@/app/utils/tracking-events";
+import { EVENT_HEADER, SIGNATURE_HEADER, handleWebhookEvent, verifySignature } from "@/app/utils/webhooks";
+
+// Receives GitHub `issues`, `pull_request` and `issue_comment` deliveries and updates tracked issues in place
+export async function POST(req: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json<TrackingErrorResponse>(
+      { error: "GITHUB_WEBHOOK_SECRET is not configured" },
+      { status: 503 }
+    );
+  }
+
+  // The signature covers the exact bytes GitHub sent, so read the body as text before parsing
+  const body = await req.text();
+  if (!verifySignature(body, req.headers.get(SIGNATURE_HEADER), secret)) {
+    return NextResponse.json<TrackingErrorResponse>({ error: "Invalid webhook signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json<TrackingErrorResponse>({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const event = req.headers.get(EVENT_HEADER) ?? "";
+  const { handled, updated } = await handleWebhookEvent(event, payload);
+  publishTrackingUpdate(updated);
+
+  return NextResponse.json<WebhookResponse>(
+    { event, handled, updated: updated.map(trackedIssueKey) },
+    { status: handled ? 200 : 202 }
+  );
+}
@@ -0,0 +1,17 @@
+"use client"
+
+import type { AgingAlert } from "@/app/utils/aging"
+
+export function AgingBadge({ alerts }: { alerts: AgingAlert[] }) {
+  if (alerts.length === 0) return null
+
+  const days = Math.max(...alerts.map((alert) => alert.days))
+  return (
+    <span
+      className="px-2 py-0.5 bg-red-100 text-red-800 rounded-md text-xs font-semibold whitespace-nowrap"
+      title={alerts.map((alert) => alert.message).join("\n")}
+    >
+      ⚠ {alerts.some((alert) => alert.rule === "inactiveDays") ? "Stale" : "No PR"} {days}d
+    </span>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { AGING_RULE_LABELS, type AgingRules } from "@/app/config/aging"
+
+type AgingRulesPanelProps = {
+  rules: AgingRules
+  onChange: (rules: AgingRules) => void
+}
+
+export function AgingRulesPanel({ rules, onChange }: AgingRulesPanelProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-muted-foreground">
+      <span className="font-semibold text-foreground">Needs attention when</span>
+      {(Object.keys(AGING_RULE_LABELS) as (keyof AgingRules)[]).map((rule) => (
+        <label key={rule} className="flex items-center gap-2">
+          {AGING_RULE_LABELS[rule]}
+          <input
+            type="number"
+            min={0}
+            value={rules[rule]}
+            onChange={(e) => onChange({ ...rules, [rule]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className="w-16 px-2 py-1 border border-border bg-card rounded-md text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          days
+        </label>
+      ))}
+      <span className="text-xs">0 turns a rule off</span>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+"use client"
+
+import Link from "next/link"
+import { useState } from "react"
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition, PeriodKind } from "@/app/types/period"
+import {
+  contributorThroughput,
+  formatDays,
+  formatPercent,
+  periodTrends,
+  summarize,
+} from "@/app/utils/analytics"
+import { contributorPath } from "@/app/utils/contributors"
+import {
+  formatPeriod,
+  localDay,
+  PERIOD_KIND_LABELS,
+  periodBounds,
+  periodKind,
+  shortPeriodLabel,
+} from "@/app/utils/periods"
+
+type AnalyticsViewProps = {
+  issues: TrackedIssue[]
+  // Newest first, as produced by availablePeriods
+  periods: string[]
+  definitions: PeriodDefinition[]
+  // Kind of period shown first, usually that of the period selected on the tracking tab
+  initialKind: PeriodKind
+}
+
+// How many of the latest periods to include; 0 is all of them
+const RANGES = [3, 6, 12, 0]
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-card border-2 border-border rounded-2xl p-5">
+      <p className="text-sm text-muted-foreground mb-1">{label}</p>
+      <p className="text-3xl font-bold text-foreground tracking-tight">{value}</p>
+    </div>
+  )
+}
+
+export function AnalyticsView({ issues, periods, definitions, initialKind }: AnalyticsViewProps) {
+  const [rangeCount, setRangeCount] = useState(3)
+  const [kind, setKind] = useState<PeriodKind>(initialKind)
+
+  // Months, sprints and the rest overlap in time, so only one kind is compared at once.
+  // Periods that have not started yet would only add empty bars.
+  const today = localDay()
+  const started = periods.filter((period) => (periodBounds(period, definitions)?.start ?? "") <= today)
+  const kinds = (Object.keys(PERIOD_KIND_LABELS) as PeriodKind[]).filter((candidate) =>
+    started.some((period) => periodKind(period) === candidate),
+  )
+  const shownKind = kinds.includes(kind) ? kind : (kinds[0] ?? "month")
+  const ofKind = started.filter((period) => periodKind(period) === shownKind)
+  const shown = rangeCount > 0 ? ofKind.slice(0, rangeCount) : ofKind
+  const inRange = issues.filter((issue) => shown.includes(issue.period))
+  const summary = summarize(inRange)
+  const trends = periodTrends(inRange, [...shown].reverse())
+  const contributors = contributorThroughput(inRange)
+  const maxTracked = Math.max(1, ...trends.map((trend) => trend.tracked))
+  const maxContributed = Math.max(1, ...contributors.map((row) => row.tracked))
+
+  // Merge-rate line: x spreads periods evenly, y is 0–100%
+  const linePoints = trends
+    .map((trend, index) => {
+      const x = trends.length === 1 ? 50 : (index / (trends.length - 1)) * 100
+      const y = 100 - (trend.mergeRate ?? 0) * 100
+      return `${x},${y}`
+    })
+    .join(" ")
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Tracking Analytics</h2>
+          <p className="text-sm text-muted-foreground">
+            {shown.length > 0
+              ? `${formatPeriod(shown[shown.length - 1], definitions)} – ${formatPeriod(shown[0], definitions)}`
+              : "No tracked periods yet"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {kinds.length > 1 && (
+            <select
+              value={shownKind}
+              onChange={(e) => setKind(e.target.value as PeriodKind)}
+              aria-label="Kind of period"
+              className="px-4 py-2 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+            >
+              {kinds.map((candidate) => (
+                <option key={candidate} value={candidate}>
+                  {PERIOD_KIND_LABELS[candidate]}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center p-1 bg-muted rounded-xl">
+            {RANGES.map((count) => (
+              <button
+                key={count}
+                onClick={() => setRangeCount(count)}
+                className={`px-4 py-2 text-sm font-semibold rounded-lg transition-all duration-200 ${
+                  rangeCount === count
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {count > 0 ? `Last ${count}` : "All time"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <StatCard label="Issues tracked" value={summary.tracked} />
+        <StatCard label="Merged" value={summary.merged} />
+        <StatCard label="Merge rate" value={formatPercent(summary.mergeRate)} />
+        <StatCard label="Avg. time to merge" value={formatDays(summary.avgDaysToMerge)} />
+        <StatCard label="Avg. cycle time" value={formatDays(summary.avgCycleDays)} />
+        <StatCard label="Avg. time in review" value={formatDays(summary.avgReviewDays)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-card border-2 border-border rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-foreground">Tracked vs. merged per period</h3>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-chart-2" /> Tracked
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-chart-5" /> Merged
+              </span>
+            </div>
+          </div>
+          <div className="flex items-end gap-3 h-48">
+            {trends.map((trend) => (
+              <div key={trend.period} className="flex-1 flex flex-col items-center gap-2 h-full">
+                <div className="flex-1 w-full flex items-end justify-center gap-1">
+                  <div
+                    className="w-1/3 bg-chart-2 rounded-t-md transition-all duration-300"
+                    style={{ height: `${(trend.tracked / maxTracked) * 100}%` }}
+                    title={`${trend.tracked} tracked`}
+                  />
+                  <div
+                    className="w-1/3 bg-chart-5 rounded-t-md transition-all duration-300"
+                    style={{ height: `${(trend.merged / maxTracked) * 100}%` }}
+                    title={`${trend.merged} merged`}
+                  />
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap truncate max-w-full">
+                  {shortPeriodLabel(trend.period, definitions)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-card border-2 border-border rounded-2xl p-6">
+          <h3 className="text-sm font-semibold text-foreground mb-4">Merge rate and time to merge</h3>
+          <div className="relative h-32 mb-4">
+            <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-full overflow-visible">
+              <line x1="0" y1="50" x2="100" y2="50" className="stroke-border" strokeWidth="0.5" strokeDasharray="2 2" />
+              {trends.length > 0 && (
+                <polyline
+                  points={linePoints}
+                  fill="none"
+                  className="stroke-primary"
+                  strokeWidth="2"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+            <span className="absolute top-0 left-0 text-xs text-muted-foreground">100%</span>
+            <span className="absolute bottom-0 left-0 text-xs text-muted-foreground">0%</span>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {trends.map((trend) => (
+                <tr key={trend.period} className="border-t border-border">
+                  <td className="py-1.5 text-muted-foreground">{formatPeriod(trend.period, definitions)}</td>
+                  <td className="py-1.5 text-right font-semibold text-foreground">{formatPercent(trend.mergeRate)}</td>
+                  <td className="py-1.5 text-right text-muted-foreground">{formatDays(trend.avgDaysToMerge)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-card border-2 border-border rounded-2xl overflow-hidden">
+        <div className="px-6 py-4 bg-muted border-b border-border">
+          <h3 className="text-sm font-semibold text-foreground">Contributor throughput</h3>
+        </div>
+        {contributors.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-6 py-3 text-left text-sm font-semibold text-foreground">Contributor</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold text-foreground w-1/3">Merged / tracked</th>
+                <th className="px-6 py-3 text-right text-sm font-semibold text-foreground">In progress</th>
+                <th className="px-6 py-3 text-right text-sm font-semibold text-foreground">Merge rate</th>
+                <th className="px-6 py-3 text-right text-sm font-semibold text-foreground">Avg. time to merge</th>
+                <th className="px-6 py-3 text-right text-sm font-semibold text-foreground">Avg. cycle time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contributors.map((row, index) => (
+                <tr key={row.contributor} className={index % 2 === 0 ? "bg-background" : "bg-muted/20"}>
+                  <td className="px-6 py-3 text-sm font-medium">
+                    <Link
+                      href={contributorPath(row.contributor)}
+                      className="text-foreground hover:text-primary transition-colors duration-200"
+                    >
+                      {row.contributor}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-chart-2 rounded-full relative"
+                          style={{ width: `${(row.tracked / maxContributed) * 100}%` }}
+                        >
+                          <div
+                            className="h-full bg-chart-5 rounded-full"
+                            style={{ width: `${row.tracked > 0 ? (row.merged / row.tracked) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                      <span className="text-sm text-muted-foreground whitespace-nowrap">
+                        {row.merged} / {row.tracked}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-right text-sm text-foreground">{row.inProgress}</td>
+                  <td className="px-6 py-3 text-right text-sm text-foreground">{formatPercent(row.mergeRate)}</td>
+                  <td className="px-6 py-3 text-right text-sm text-muted-foreground">{formatDays(row.avgDaysToMerge)}</td>
+                  <td className="px-6 py-3 text-right text-sm text-muted-foreground">{formatDays(row.avgCycleDays)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-6 py-8 text-center text-muted-foreground">No tracked issues in this range</p>
+        )}
+      </div>
+    </div>
+  )
+}
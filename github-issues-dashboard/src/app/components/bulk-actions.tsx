@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { PeriodSelect } from "@/app/components/period-select"
+import { STATUS_WORKFLOW } from "@/app/config/statuses"
+import type { ContributorStatus } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+
+const buttonClass =
+  "px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+const inputClass =
+  "px-3 py-2 border-2 border-border bg-card rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+
+function BulkActionBar({ count, onClear, children }: { count: number; onClear: () => void; children: ReactNode }) {
+  return (
+    <div className="sticky top-4 z-20 flex flex-wrap items-center gap-3 px-4 py-3 bg-card border-2 border-primary/40 rounded-2xl shadow-lg">
+      <span className="px-3 py-1 bg-primary/10 text-primary rounded-full text-sm font-semibold">{count} selected</span>
+      {children}
+      <button
+        onClick={onClear}
+        className="ml-auto text-sm font-medium text-muted-foreground hover:text-foreground transition-colors duration-200"
+      >
+        Clear selection
+      </button>
+    </div>
+  )
+}
+
+type IssueBulkActionsProps = {
+  count: number
+  defaultPeriod: string
+  periods: string[]
+  periodDefinitions: PeriodDefinition[]
+  onTrack: (period: string) => void
+  onClear: () => void
+}
+
+export function IssueBulkActions({
+  count,
+  defaultPeriod,
+  periods,
+  periodDefinitions,
+  onTrack,
+  onClear,
+}: IssueBulkActionsProps) {
+  const [period, setPeriod] = useState(defaultPeriod)
+
+  return (
+    <BulkActionBar count={count} onClear={onClear}>
+      <PeriodSelect
+        value={period}
+        periods={periods}
+        definitions={periodDefinitions}
+        onChange={setPeriod}
+        ariaLabel="Period to track into"
+        className={inputClass}
+      />
+      <button onClick={() => onTrack(period)} className={buttonClass}>
+        Track selected
+      </button>
+    </BulkActionBar>
+  )
+}
+
+type TrackingBulkActionsProps = {
+  count: number
+  currentPeriod: string
+  periods: string[]
+  periodDefinitions: PeriodDefinition[]
+  onMove: (period: string) => void
+  onStatusChange: (status: ContributorStatus) => void
+  onAssign: (contributor: string) => void
+  onRemove: () => void
+  onClear: () => void
+}
+
+export function TrackingBulkActions({
+  count,
+  currentPeriod,
+  periods,
+  periodDefinitions,
+  onMove,
+  onStatusChange,
+  onAssign,
+  onRemove,
+  onClear,
+}: TrackingBulkActionsProps) {
+  const [period, setPeriod] = useState(currentPeriod)
+  const [contributor, setContributor] = useState("")
+
+  return (
+    <BulkActionBar count={count} onClear={onClear}>
+      <div className="flex items-center gap-2">
+        <PeriodSelect
+          value={period}
+          periods={periods}
+          definitions={periodDefinitions}
+          onChange={setPeriod}
+          ariaLabel="Period to move to"
+          className={inputClass}
+        />
+        <button onClick={() => onMove(period)} disabled={period === currentPeriod} className={buttonClass}>
+          Move
+        </button>
+      </div>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onStatusChange(e.target.value as ContributorStatus)}
+        aria-label="Set status of selected issues"
+        className={inputClass}
+      >
+        <option value="">Set status...</option>
+        {STATUS_WORKFLOW.map((definition) => (
+          <option key={definition.id} value={definition.id}>
+            {definition.label}
+          </option>
+        ))}
+      </select>
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          onAssign(contributor.trim())
+          setContributor("")
+        }}
+      >
+        <input
+          value={contributor}
+          onChange={(e) => setContributor(e.target.value)}
+          placeholder="Contributor (empty clears)"
+          aria-label="Contributor for selected issues"
+          className={inputClass}
+        />
+        <button type="submit" className={buttonClass}>
+          Assign
+        </button>
+      </form>
+      <button
+        onClick={onRemove}
+        className="px-4 py-2 text-red-600 hover:text-red-800 text-sm font-semibold transition-colors duration-200"
+      >
+        Remove
+      </button>
+    </BulkActionBar>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState } from "react"
+import type { Rollover } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { formatPeriod, nextPeriod } from "@/app/utils/periods"
+
+type CarryOverPanelProps = {
+  period: string
+  definitions: PeriodDefinition[]
+  unfinishedCount: number
+  onCarryOver: (mode: Rollover["mode"]) => void
+}
+
+export function CarryOverPanel({ period, definitions, unfinishedCount, onCarryOver }: CarryOverPanelProps) {
+  const [mode, setMode] = useState<Rollover["mode"]>("move")
+  const next = nextPeriod(period, definitions)
+  const name = formatPeriod(period, definitions)
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-card border-2 border-border rounded-2xl p-4">
+      <span className="text-sm text-foreground">
+        <span className="font-semibold">{unfinishedCount}</span> unfinished issue{unfinishedCount !== 1 ? "s" : ""} in{" "}
+        {name}
+      </span>
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as Rollover["mode"])}
+        aria-label="Carry-over mode"
+        className="ml-auto px-3 py-2 border-2 border-border bg-card rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+      >
+        <option value="move">Move (remove from {name})</option>
+        <option value="copy">Copy (keep listed in {name})</option>
+      </select>
+      <button
+        onClick={() => onCarryOver(mode)}
+        disabled={!next}
+        title={next ? undefined : "Define a later period to carry work over to"}
+        className="px-4 py-2 bg-primary text-primary-foreground text-sm font-semibold rounded-lg hover:bg-primary/90 transition-all duration-200 disabled:opacity-50"
+      >
+        {next ? `Carry over to ${formatPeriod(next, definitions)}` : "No later period"}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import Image from "next/image"
+
+type ContributorAvatarProps = {
+  name: string
+  url: string | null
+  size?: number
+}
+
+// Falls back to initials for free-text contributors that aren't GitHub logins
+export function ContributorAvatar({ name, url, size = 32 }: ContributorAvatarProps) {
+  if (!url) {
+    return (
+      <span
+        className="inline-flex items-center justify-center rounded-full bg-primary/10 text-primary font-semibold flex-shrink-0"
+        style={{ width: size, height: size, fontSize: size * 0.4 }}
+        aria-hidden
+      >
+        {name.slice(0, 2).toUpperCase()}
+      </span>
+    )
+  }
+
+  return (
+    <Image
+      src={url}
+      alt={`${name}'s avatar`}
+      width={size}
+      height={size}
+      unoptimized
+      className="rounded-full border border-border flex-shrink-0"
+    />
+  )
+}
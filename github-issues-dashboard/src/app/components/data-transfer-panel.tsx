@@ -0,0 +1,122 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type { TrackedIssue } from "@/app/types/contributor"
+import { download } from "@/app/utils/download"
+import { parseImport, toCSV, toJSON, toMarkdownReport } from "@/app/utils/tracking-export"
+
+type DataTransferPanelProps = {
+  allIssues: TrackedIssue[]
+  // As listed in the period, for the report
+  periodIssues: TrackedIssue[]
+  // The stored records behind them, for JSON and CSV, so a re-import doesn't write a copy's snapshot back
+  periodRecords: TrackedIssue[]
+  selectedPeriod: string
+  // How the selected period is shown, e.g. "October 2026" or "Sprint 3"
+  periodName: string
+  onImport: (issues: TrackedIssue[], mode: "merge" | "replace") => void
+}
+
+export function DataTransferPanel({
+  allIssues,
+  periodIssues,
+  periodRecords,
+  selectedPeriod,
+  periodName,
+  onImport,
+}: DataTransferPanelProps) {
+  const [scope, setScope] = useState<"period" | "all">("period")
+  const [mode, setMode] = useState<"merge" | "replace">("merge")
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  // Period keys such as "sprint:abc:3" contain colons, which some file systems refuse
+  const periodSuffix = selectedPeriod.replace(/:/g, "-")
+  const exported = scope === "period" ? periodRecords : allIssues
+  const suffix = scope === "period" ? periodSuffix : "all"
+
+  const handleFile = async (file: File) => {
+    const { issues, errors } = parseImport(await file.text())
+    if (issues.length === 0) {
+      setMessage({ tone: "error", text: errors[0] ?? "No tracked issues found in file" })
+      return
+    }
+    if (
+      mode === "replace" &&
+      !confirm(`Replace all ${allIssues.length} tracked issues with ${issues.length} from ${file.name}?`)
+    ) {
+      return
+    }
+    onImport(issues, mode)
+    setMessage({
+      tone: errors.length > 0 ? "error" : "success",
+      text:
+        `Imported ${issues.length} issue${issues.length !== 1 ? "s" : ""}` +
+        (errors.length > 0 ? `; skipped ${errors.length}: ${errors.slice(0, 3).join("; ")}` : ""),
+    })
+  }
+
+  const buttonClass =
+    "px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+  const selectClass =
+    "px-3 py-2 border-2 border-border bg-card rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+
+  return (
+    <div className="bg-card border-2 border-border rounded-2xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold text-foreground">Export</span>
+        <select value={scope} onChange={(e) => setScope(e.target.value as "period" | "all")} className={selectClass}>
+          <option value="period">{periodName}</option>
+          <option value="all">Everything</option>
+        </select>
+        <button
+          onClick={() => download(`tracking-${suffix}.json`, toJSON(exported), "application/json")}
+          disabled={exported.length === 0}
+          className={buttonClass}
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => download(`tracking-${suffix}.csv`, toCSV(exported), "text/csv")}
+          disabled={exported.length === 0}
+          className={buttonClass}
+        >
+          CSV
+        </button>
+        <button
+          onClick={() =>
+            download(`report-${periodSuffix}.md`, toMarkdownReport(periodIssues, periodName), "text/markdown")
+          }
+          disabled={periodIssues.length === 0}
+          className={buttonClass}
+          title={`Report for ${periodName}`}
+        >
+          Markdown report
+        </button>
+
+        <span className="text-sm font-semibold text-foreground ml-auto">Import</span>
+        <select value={mode} onChange={(e) => setMode(e.target.value as "merge" | "replace")} className={selectClass}>
+          <option value="merge">Merge with existing</option>
+          <option value="replace">Replace existing</option>
+        </select>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          Choose JSON file
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+      {message && (
+        <p className={`text-sm ${message.tone === "error" ? "text-red-600" : "text-primary"}`}>{message.text}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+type EditableCellProps = {
+  value: string
+  placeholder: string
+  onSave: (value: string) => void
+  multiline?: boolean
+  ariaLabel?: string
+  // Shows the value without letting it be edited
+  readOnly?: boolean
+}
+
+// Shows the value as text until clicked; commits on blur or Enter, Escape discards the draft
+export function EditableCell({
+  value,
+  placeholder,
+  onSave,
+  multiline = false,
+  ariaLabel,
+  readOnly = false,
+}: EditableCellProps) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    if (!editing) setDraft(value)
+  }, [value, editing])
+
+  const commit = () => {
+    setEditing(false)
+    const next = draft.trim()
+    if (next !== value) onSave(next)
+  }
+
+  const cancel = () => {
+    setDraft(value)
+    setEditing(false)
+  }
+
+  const text = value ? (
+    <span className={`text-sm text-foreground ${multiline ? "whitespace-pre-wrap line-clamp-2" : ""}`}>{value}</span>
+  ) : (
+    <span className="text-sm text-muted-foreground italic">{placeholder}</span>
+  )
+
+  if (readOnly) return <div className="min-w-24">{value ? text : null}</div>
+
+  if (!editing) {
+    return (
+      <button
+        onClick={() => setEditing(true)}
+        className="text-left w-full min-w-24 px-2 py-1 -mx-2 rounded-lg hover:bg-muted transition-colors duration-200"
+        aria-label={ariaLabel}
+        title="Click to edit"
+      >
+        {text}
+      </button>
+    )
+  }
+
+  const className =
+    "w-full min-w-32 px-2 py-1 border-2 border-primary bg-card rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+
+  return multiline ? (
+    <textarea
+      autoFocus
+      rows={2}
+      className={className}
+      value={draft}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        // Shift+Enter keeps the newline for multi-line notes
+        if (e.key === "Enter" && !e.shiftKey) {
+          e.preventDefault()
+          commit()
+        } else if (e.key === "Escape") {
+          cancel()
+        }
+      }}
+    />
+  ) : (
+    <input
+      autoFocus
+      className={className}
+      value={draft}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit()
+        else if (e.key === "Escape") cancel()
+      }}
+    />
+  )
+}
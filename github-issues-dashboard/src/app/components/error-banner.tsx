@@ -0,0 +1,48 @@
+"use client"
+
+import type { IssuesErrorCode } from "@/app/types/github"
+
+export type FetchError = {
+  code: IssuesErrorCode
+  message: string
+}
+
+const TITLES: Record<IssuesErrorCode, string> = {
+  invalid_request: "Check the repository name",
+  unauthorized: "GitHub rejected the token",
+  forbidden: "Access denied",
+  not_found: "Repository not found",
+  rate_limited: "Rate limit reached",
+  network: "Network problem",
+  github_error: "GitHub returned an error",
+}
+
+type ErrorBannerProps = {
+  error: FetchError
+  // Omitted for errors that retrying cannot fix, such as an invalid name
+  onRetry?: () => void
+  retrying?: boolean
+}
+
+export function ErrorBanner({ error, onRetry, retrying = false }: ErrorBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="flex items-start justify-between gap-4 p-5 border-2 border-red-500/40 bg-red-500/10 rounded-xl"
+    >
+      <div>
+        <p className="text-red-600 font-semibold">{TITLES[error.code]}</p>
+        <p className="text-sm text-muted-foreground mt-1">{error.message}</p>
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={retrying}
+          className="shrink-0 px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+        >
+          {retrying ? "Retrying..." : "Try again"}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { STATUS_WORKFLOW, getStatusDefinition } from "@/app/config/statuses"
+import type { ContributorStatus, HistoryEntry, TrackedIssue } from "@/app/types/contributor"
+import { cycleDays, formatDays, reviewDays } from "@/app/utils/analytics"
+import type { PeriodDefinition } from "@/app/types/period"
+import { timeInStatus } from "@/app/utils/history"
+import { formatPeriod } from "@/app/utils/periods"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const FIELD_LABELS: Record<HistoryEntry["field"], string> = {
+  status: "Status",
+  assignee: "GitHub assignee",
+  contributor: "Contributor",
+  notes: "Notes",
+  period: "Period",
+}
+
+function formatValue(entry: HistoryEntry, value: string | null, definitions: PeriodDefinition[]): string {
+  if (value === null) return "none"
+  if (entry.field === "status") return getStatusDefinition(value as ContributorStatus).label
+  return entry.field === "period" ? formatPeriod(value, definitions) : value
+}
+
+function describe(entry: HistoryEntry, definitions: PeriodDefinition[]): string {
+  const format = (value: string | null) => formatValue(entry, value, definitions)
+  if (entry.from === null && entry.field === "status") return `Tracking started as ${format(entry.to)}`
+  if (entry.field === "notes") return entry.to === null ? "Notes cleared" : "Notes edited"
+  return `${FIELD_LABELS[entry.field]}: ${format(entry.from)} → ${format(entry.to)}`
+}
+
+export function HistoryTimeline({ issue, definitions }: { issue: TrackedIssue; definitions: PeriodDefinition[] }) {
+  const history = [...(issue.history ?? [])].reverse()
+  const durations = timeInStatus(issue)
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUS_WORKFLOW.filter((definition) => durations[definition.id] !== undefined).map((definition) => (
+          <span key={definition.id} className={`px-3 py-1 rounded-full text-xs font-medium ${definition.pillClass}`}>
+            {definition.label}: {formatDays((durations[definition.id] ?? 0) / DAY_MS)}
+          </span>
+        ))}
+        <span className="text-xs text-muted-foreground ml-auto">
+          Cycle time {formatDays(cycleDays(issue))} · Review {formatDays(reviewDays(issue))}
+        </span>
+      </div>
+      <ol className="space-y-2 border-l-2 border-border pl-4">
+        {history.map((entry, index) => (
+          <li key={`${entry.at}-${entry.field}-${index}`} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-foreground" title={entry.field === "notes" ? (entry.to ?? "") : undefined}>
+                {describe(entry, definitions)}
+              </span>
+              <span
+                className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                  entry.source === "auto" ? "bg-muted text-muted-foreground" : "bg-primary/10 text-primary"
+                }`}
+              >
+                {entry.source === "auto" ? "Auto-sync" : "Manual"}
+              </span>
+            </div>
+            <time dateTime={entry.at} className="text-xs text-muted-foreground">
+              {new Date(entry.at).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}
+            </time>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+"use client"
+
+import { useId, useState } from "react"
+import type { Issue } from "@/app/types/github"
+import type { IssueAction } from "@/app/utils/github-write"
+
+type IssueActionsPanelProps = {
+  issue: Issue
+  // Known label names, offered as suggestions
+  labels: string[]
+  // Pre-filled in the assign box, e.g. the tracked contributor
+  suggestedAssignee?: string
+  canWrite: boolean
+  // Resolves to an error message, or null once GitHub accepted the change
+  onAction: (action: IssueAction) => Promise<string | null>
+}
+
+const buttonClass =
+  "px-3 py-1.5 bg-card border-2 border-border text-foreground text-xs font-semibold rounded-lg hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+const inputClass =
+  "px-3 py-1.5 border-2 border-border bg-card rounded-lg text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+
+export function IssueActionsPanel({ issue, labels, suggestedAssignee = "", canWrite, onAction }: IssueActionsPanelProps) {
+  const [login, setLogin] = useState(suggestedAssignee)
+  const [label, setLabel] = useState("")
+  const [comment, setComment] = useState("")
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const labelListId = useId()
+
+  if (!canWrite) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add a GitHub token with write access to assign, label, comment on or close issues from here.
+      </p>
+    )
+  }
+
+  const run = async (action: IssueAction, onDone?: () => void) => {
+    setPending(true)
+    setError(null)
+    const failure = await onAction(action)
+    setPending(false)
+    setError(failure)
+    if (!failure) onDone?.()
+  }
+
+  const closed = issue.state === "closed"
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-xs font-semibold text-muted-foreground">Assignee</span>
+        {issue.assignee && (
+          <span className="flex items-center gap-1 pl-3 pr-1 py-1 bg-muted rounded-full text-xs font-medium text-foreground">
+            {issue.assignee.login}
+            <button
+              onClick={() => issue.assignee && run({ type: "unassign", login: issue.assignee.login })}
+              disabled={pending}
+              aria-label={`Unassign ${issue.assignee.login}`}
+              className="px-1.5 text-muted-foreground hover:text-red-600 transition-colors duration-200"
+            >
+              ×
+            </button>
+          </span>
+        )}
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (login.trim()) run({ type: "assign", login: login.trim() })
+          }}
+        >
+          <input
+            value={login}
+            onChange={(e) => setLogin(e.target.value)}
+            placeholder="GitHub login"
+            aria-label="Login to assign"
+            className={inputClass}
+          />
+          <button type="submit" disabled={pending || !login.trim()} className={buttonClass}>
+            Assign
+          </button>
+        </form>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-xs font-semibold text-muted-foreground">Labels</span>
+        {issue.labels.map((existing) => (
+          <span
+            key={existing.name}
+            className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs font-semibold text-white"
+            style={{ backgroundColor: `#${existing.color}` }}
+          >
+            {existing.name}
+            <button
+              onClick={() => run({ type: "removeLabel", label: existing.name })}
+              disabled={pending}
+              aria-label={`Remove label ${existing.name}`}
+              className="px-1.5 opacity-70 hover:opacity-100"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (label.trim()) run({ type: "addLabel", label: label.trim() }, () => setLabel(""))
+          }}
+        >
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            list={labelListId}
+            placeholder="Label"
+            aria-label="Label to add"
+            className={inputClass}
+          />
+          <datalist id={labelListId}>
+            {labels.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <button type="submit" disabled={pending || !label.trim()} className={buttonClass}>
+            Add label
+          </button>
+        </form>
+      </div>
+
+      <form
+        className="flex items-start gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (comment.trim()) run({ type: "comment", body: comment }, () => setComment(""))
+        }}
+      >
+        <span className="w-20 pt-2 text-xs font-semibold text-muted-foreground">Comment</span>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={2}
+          placeholder="Leave a comment on GitHub"
+          aria-label="Comment"
+          className={`${inputClass} flex-1 resize-y`}
+        />
+        <button type="submit" disabled={pending || !comment.trim()} className={buttonClass}>
+          Comment
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-xs font-semibold text-muted-foreground">State</span>
+        {closed ? (
+          <button onClick={() => run({ type: "reopen" })} disabled={pending} className={buttonClass}>
+            Reopen issue
+          </button>
+        ) : (
+          <>
+            <button onClick={() => run({ type: "close", reason: "completed" })} disabled={pending} className={buttonClass}>
+              Close as completed
+            </button>
+            <button
+              onClick={() => run({ type: "close", reason: "not_planned" })}
+              disabled={pending}
+              className={buttonClass}
+            >
+              Close as not planned
+            </button>
+          </>
+        )}
+        {pending && <span className="text-xs text-muted-foreground">Saving to GitHub...</span>}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ContributorAvatar } from "@/app/components/contributor-avatar"
+import { ErrorBanner } from "@/app/components/error-banner"
+import { useIssueDetail } from "@/app/hooks/use-issue-detail"
+import type {
+  GithubUser,
+  PullRequestState,
+  ReactionContent,
+  Reactions,
+  ReviewState,
+  ReviewedPullRequest,
+} from "@/app/types/github"
+import { sanitizeHtml } from "@/app/utils/sanitize-html"
+
+type IssueDetailDrawerProps = {
+  repoKey: string
+  number: number
+  token: string
+  onClose: () => void
+}
+
+const REACTION_EMOJI: Record<ReactionContent, string> = {
+  "+1": "👍",
+  "-1": "👎",
+  laugh: "😄",
+  hooray: "🎉",
+  confused: "😕",
+  heart: "❤️",
+  rocket: "🚀",
+  eyes: "👀",
+}
+
+const PULL_REQUEST_BADGES: Record<PullRequestState, string> = {
+  OPEN: "bg-green-100 text-green-800 border-green-200",
+  MERGED: "bg-purple-100 text-purple-800 border-purple-200",
+  CLOSED: "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+const REVIEW_LABELS: Record<ReviewState, { label: string; className: string }> = {
+  APPROVED: { label: "Approved", className: "text-green-700" },
+  CHANGES_REQUESTED: { label: "Changes requested", className: "text-red-600" },
+  COMMENTED: { label: "Reviewed with comments", className: "text-muted-foreground" },
+  NO_REVIEWS: { label: "No reviews yet", className: "text-muted-foreground" },
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })
+}
+
+function Markdown({ html }: { html: string }) {
+  const safe = useMemo(() => sanitizeHtml(html), [html])
+  if (!safe.trim()) return <p className="text-sm text-muted-foreground italic">No description provided.</p>
+  return <div className="markdown-body" dangerouslySetInnerHTML={{ __html: safe }} />
+}
+
+function ReactionList({ reactions }: { reactions: Reactions }) {
+  const entries = Object.entries(reactions) as [ReactionContent, number][]
+  if (entries.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {entries.map(([content, count]) => (
+        <span key={content} className="px-2 py-0.5 bg-muted border border-border rounded-full text-xs text-foreground">
+          {REACTION_EMOJI[content]} {count}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function Author({ user, at, url }: { user: GithubUser | null; at: string; url?: string }) {
+  const login = user?.login ?? "ghost"
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <ContributorAvatar name={login} url={user?.avatar_url ?? null} size={24} />
+      <span className="font-semibold text-foreground">{login}</span>
+      {url ? (
+        <a href={url} target="_blank" rel="noreferrer" className="text-muted-foreground hover:text-primary">
+          {formatDate(at)}
+        </a>
+      ) : (
+        <span className="text-muted-foreground">{formatDate(at)}</span>
+      )}
+    </div>
+  )
+}
+
+function PullRequestRow({ pull }: { pull: ReviewedPullRequest }) {
+  const review = REVIEW_LABELS[pull.reviewState]
+  return (
+    <li className="p-3 bg-card border border-border rounded-lg">
+      <div className="flex items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-md border text-xs font-semibold ${PULL_REQUEST_BADGES[pull.state]}`}>
+          {pull.state}
+        </span>
+        <a
+          href={pull.url}
+          target="_blank"
+          rel="noreferrer"
+          className="text-sm font-medium text-foreground hover:text-primary truncate"
+        >
+          {pull.repository}#{pull.number} {pull.title}
+        </a>
+      </div>
+      <p className={`text-xs mt-1 ${review.className}`}>
+        {review.label}
+        {pull.reviewers.length > 0 &&
+          ` · ${pull.reviewers.map((reviewer) => `${reviewer.login} (${REVIEW_LABELS[reviewer.state].label.toLowerCase()})`).join(", ")}`}
+        {pull.closesIssue && " · closes this issue"}
+      </p>
+    </li>
+  )
+}
+
+// Slide-over panel with everything GitHub shows on the issue page
+export function IssueDetailDrawer({ repoKey, number, token, onClose }: IssueDetailDrawerProps) {
+  const [reloadKey, setReloadKey] = useState(0)
+  const { detail, error, loading } = useIssueDetail(repoKey, number, token, reloadKey)
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${repoKey}#${number}`}
+        className="relative w-full max-w-2xl h-full overflow-y-auto bg-background border-l border-border shadow-2xl"
+      >
+        <div className="sticky top-0 z-10 flex items-center justify-between gap-4 px-6 py-4 bg-background border-b border-border">
+          <span className="text-sm font-semibold text-muted-foreground">
+            {repoKey}#{number}
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setReloadKey((key) => key + 1)}
+              disabled={loading}
+              className="text-sm font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+            >
+              {loading ? "Loading..." : "Reload"}
+            </button>
+            <button onClick={onClose} aria-label="Close" className="text-xl text-muted-foreground hover:text-foreground">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-6 space-y-8">
+          {error && <ErrorBanner error={error} onRetry={() => setReloadKey((key) => key + 1)} retrying={loading} />}
+          {!detail && loading && <p className="text-sm text-muted-foreground">Loading issue...</p>}
+
+          {detail && (
+            <>
+              <header className="space-y-3">
+                <h2 className="text-2xl font-bold text-foreground leading-tight">
+                  <a href={detail.issue.html_url} target="_blank" rel="noreferrer" className="hover:text-primary">
+                    {detail.issue.title}
+                  </a>
+                </h2>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                      detail.issue.state === "closed" ? "bg-purple-100 text-purple-800" : "bg-green-100 text-green-800"
+                    }`}
+                  >
+                    {detail.issue.state === "closed" ? "Closed" : "Open"}
+                  </span>
+                  {detail.issue.labels.map((label) => (
+                    <span
+                      key={label.name}
+                      className="px-3 py-1 rounded-full text-xs font-semibold text-white"
+                      style={{ backgroundColor: `#${label.color}` }}
+                    >
+                      {label.name}
+                    </span>
+                  ))}
+                  {detail.issue.assignee && (
+                    <span className="text-xs text-muted-foreground">Assigned to {detail.issue.assignee.login}</span>
+                  )}
+                </div>
+              </header>
+
+              <section>
+                <Author user={detail.author} at={detail.createdAt} />
+                <div className="mt-3">
+                  <Markdown html={detail.bodyHtml} />
+                </div>
+                <ReactionList reactions={detail.reactions} />
+              </section>
+
+              {detail.pullRequests.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold text-foreground mb-3">Linked pull requests</h3>
+                  <ul className="space-y-2">
+                    {detail.pullRequests.map((pull) => (
+                      <PullRequestRow key={pull.url} pull={pull} />
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <section>
+                <h3 className="text-sm font-semibold text-foreground mb-3">
+                  {detail.issue.comments} comment{detail.issue.comments !== 1 ? "s" : ""}
+                </h3>
+                <ol className="space-y-4">
+                  {detail.comments.map((comment) => (
+                    <li key={comment.id} className="p-4 bg-card border border-border rounded-xl">
+                      <Author user={comment.author} at={comment.createdAt} url={comment.url} />
+                      <div className="mt-3">
+                        <Markdown html={comment.bodyHtml} />
+                      </div>
+                      <ReactionList reactions={comment.reactions} />
+                    </li>
+                  ))}
+                </ol>
+                {detail.moreComments && (
+                  <a
+                    href={detail.issue.html_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-block mt-4 text-sm font-medium text-primary hover:underline"
+                  >
+                    Read the remaining comments on GitHub
+                  </a>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useId, useState } from "react"
+import { completeQuery, type SavedSearch } from "@/app/utils/issue-query"
+
+type IssueSearchProps = {
+  value: string
+  onChange: (value: string) => void
+  errors: string[]
+  labels: string[]
+  assignees: string[]
+  savedSearches: SavedSearch[]
+  onSaveSearch: (name: string) => void
+  onDeleteSearch: (name: string) => void
+}
+
+const SYNTAX_HINT =
+  "label:bug -label:wontfix assignee:alice is:unassigned is:tracked comments:>5 updated:<2026-09-01"
+
+export function IssueSearch({
+  value,
+  onChange,
+  errors,
+  labels,
+  assignees,
+  savedSearches,
+  onSaveSearch,
+  onDeleteSearch,
+}: IssueSearchProps) {
+  const [focused, setFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const listboxId = useId()
+
+  const suggestions = focused ? completeQuery(value, { labels, assignees }) : []
+  const active = suggestions.length > 0 ? Math.min(highlighted, suggestions.length - 1) : -1
+
+  const accept = (index: number) => {
+    onChange(suggestions[index].value)
+    setHighlighted(0)
+  }
+
+  const saveCurrent = () => {
+    const name = prompt("Name this search", value.trim())?.trim()
+    if (name) onSaveSearch(name)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <input
+            className="w-full px-5 py-4 border-2 border-border bg-card rounded-xl text-sm font-mono placeholder:font-sans placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+            placeholder="Search issues, e.g. label:bug is:unassigned comments:>5"
+            title={SYNTAX_HINT}
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value)
+              setFocused(true)
+              setHighlighted(0)
+            }}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            onKeyDown={(e) => {
+              if (active === -1) return
+              if (e.key === "ArrowDown") {
+                e.preventDefault()
+                setHighlighted((active + 1) % suggestions.length)
+              } else if (e.key === "ArrowUp") {
+                e.preventDefault()
+                setHighlighted((active - 1 + suggestions.length) % suggestions.length)
+              } else if (e.key === "Enter" || e.key === "Tab") {
+                e.preventDefault()
+                accept(active)
+              } else if (e.key === "Escape") {
+                setFocused(false)
+              }
+            }}
+            role="combobox"
+            aria-controls={listboxId}
+            aria-expanded={suggestions.length > 0}
+            aria-autocomplete="list"
+          />
+          {suggestions.length > 0 && (
+            <ul
+              id={listboxId}
+              role="listbox"
+              className="absolute z-10 mt-2 w-full bg-card border-2 border-border rounded-xl shadow-lg overflow-hidden"
+            >
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={suggestion.label}
+                  role="option"
+                  aria-selected={index === active}
+                  // mousedown rather than click so the input keeps focus
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    accept(index)
+                  }}
+                  className={`px-4 py-2 text-sm font-mono cursor-pointer ${
+                    index === active ? "bg-primary/10 text-primary" : "text-foreground hover:bg-muted"
+                  }`}
+                >
+                  {suggestion.label}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button
+          onClick={saveCurrent}
+          disabled={!value.trim()}
+          className="px-5 py-4 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-xl hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+        >
+          Save search
+        </button>
+      </div>
+
+      {errors.length > 0 && <p className="text-sm text-red-600">{errors.join("; ")}</p>}
+
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground mr-1">Saved:</span>
+          {savedSearches.map((search) => (
+            <span
+              key={search.name}
+              className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-xs font-medium transition-colors duration-200 ${
+                search.query === value ? "border-primary bg-primary/10 text-primary" : "border-border bg-card text-foreground"
+              }`}
+            >
+              <button onClick={() => onChange(search.query)} title={search.query}>
+                {search.name}
+              </button>
+              <button
+                onClick={() => onDeleteSearch(search.name)}
+                className="px-1.5 text-muted-foreground hover:text-red-600 transition-colors duration-200"
+                aria-label={`Delete saved search ${search.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import type { PeriodDefinition, PeriodKind } from "@/app/types/period"
+import { formatPeriod, PERIOD_KIND_LABELS, periodKind } from "@/app/utils/periods"
+
+type PeriodSelectProps = {
+  value: string
+  // Newest first, as produced by availablePeriods
+  periods: string[]
+  definitions: PeriodDefinition[]
+  onChange: (period: string) => void
+  ariaLabel: string
+  className: string
+  // Option text prefix, e.g. "Track for "
+  prefix?: string
+}
+
+// Periods grouped by kind; `value` is always offered, even when it is no longer in `periods`
+export function PeriodSelect({
+  value,
+  periods,
+  definitions,
+  onChange,
+  ariaLabel,
+  className,
+  prefix = "",
+}: PeriodSelectProps) {
+  const options = periods.includes(value) ? periods : [value, ...periods]
+  const kinds = (Object.keys(PERIOD_KIND_LABELS) as PeriodKind[]).filter((kind) =>
+    options.some((period) => periodKind(period) === kind),
+  )
+
+  const renderOptions = (kind: PeriodKind) =>
+    options
+      .filter((period) => periodKind(period) === kind)
+      .map((period) => (
+        <option key={period} value={period}>
+          {prefix}
+          {formatPeriod(period, definitions)}
+        </option>
+      ))
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} aria-label={ariaLabel} className={className}>
+      {kinds.length === 1
+        ? renderOptions(kinds[0])
+        : kinds.map((kind) => (
+            <optgroup key={kind} label={PERIOD_KIND_LABELS[kind]}>
+              {renderOptions(kind)}
+            </optgroup>
+          ))}
+    </select>
+  )
+}
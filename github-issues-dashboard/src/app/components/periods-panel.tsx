@@ -0,0 +1,196 @@
+"use client"
+
+import { useState } from "react"
+import type { IssuesErrorResponse, MilestonesResponse } from "@/app/types/github"
+import type { PeriodDefinition } from "@/app/types/period"
+import { formatDay, formatPeriodDates, localDay, milestoneDefinition, newPeriodId, periodKey } from "@/app/utils/periods"
+
+type PeriodsPanelProps = {
+  definitions: PeriodDefinition[]
+  onChange: (definitions: PeriodDefinition[]) => void
+  // Repo whose milestones can be imported; "/" when none is loaded
+  repoKey: string
+  token: string
+}
+
+const DEFAULT_SPRINT_DAYS = 14
+
+const inputClass =
+  "px-3 py-2 border-2 border-border bg-card rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200"
+const buttonClass =
+  "px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200 disabled:opacity-50"
+
+function describe(definition: PeriodDefinition): string {
+  switch (definition.kind) {
+    case "range":
+      return `${definition.name} · ${formatPeriodDates(periodKey(definition), [definition])}`
+    case "sprint":
+      return `${definition.name} · every ${definition.lengthDays} days from ${formatDay(definition.start)}`
+    case "milestone":
+      return `${definition.title} · ${definition.repoKey} · ${definition.dueOn ? `due ${formatDay(definition.dueOn)}` : "no due date"}`
+  }
+}
+
+// Date ranges, sprint cadences and GitHub milestones that issues can be tracked under besides calendar months
+export function PeriodsPanel({ definitions, onChange, repoKey, token }: PeriodsPanelProps) {
+  const [kind, setKind] = useState<"range" | "sprint">("sprint")
+  const [name, setName] = useState("")
+  const [start, setStart] = useState(localDay())
+  const [end, setEnd] = useState("")
+  const [lengthDays, setLengthDays] = useState(DEFAULT_SPRINT_DAYS)
+  const [importing, setImporting] = useState(false)
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null)
+
+  const formError =
+    !name.trim()
+      ? "Enter a name"
+      : !start
+        ? "Pick a start date"
+        : kind === "range" && (!end || end < start)
+          ? "Pick an end date on or after the start"
+          : null
+
+  const addDefinition = () => {
+    if (formError) return
+    const id = newPeriodId()
+    onChange([
+      ...definitions,
+      kind === "range"
+        ? { kind, id, name: name.trim(), start, end }
+        : { kind, id, name: name.trim(), start, lengthDays: Math.max(1, Math.floor(lengthDays)) },
+    ])
+    setName("")
+    setMessage(null)
+  }
+
+  // Re-importing updates titles and due dates in place, so issues stay attached to their milestone
+  const importMilestones = async () => {
+    const [owner, repo] = repoKey.split("/")
+    setImporting(true)
+    setMessage(null)
+    try {
+      const res = await fetch(
+        `/api/milestones?owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`,
+        { headers: token ? { "X-GitHub-Token": token } : {} },
+      )
+      const data: MilestonesResponse | IssuesErrorResponse = await res.json()
+      if ("error" in data) {
+        setMessage({ tone: "error", text: data.error })
+        return
+      }
+      const imported = data.milestones.map((milestone) => milestoneDefinition(repoKey, milestone))
+      const ids = new Set(imported.map((definition) => definition.id))
+      onChange([
+        ...definitions.filter((definition) => definition.kind !== "milestone" || !ids.has(definition.id)),
+        ...imported,
+      ])
+      setMessage({
+        tone: "success",
+        text: imported.length > 0 ? `Imported ${imported.length} milestones from ${repoKey}` : `${repoKey} has no milestones`,
+      })
+    } catch {
+      setMessage({ tone: "error", text: "Could not reach the dashboard server" })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <details className="bg-card border-2 border-border rounded-2xl p-4">
+      <summary className="text-sm font-semibold text-foreground cursor-pointer">
+        Tracking periods ({definitions.length} defined besides calendar months)
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {definitions.length > 0 && (
+          <ul className="space-y-2">
+            {definitions.map((definition) => (
+              <li key={`${definition.kind}:${definition.id}`} className="flex items-center gap-3 text-sm">
+                <span className="px-2 py-0.5 bg-muted text-muted-foreground rounded-md text-xs font-medium capitalize">
+                  {definition.kind}
+                </span>
+                <span className="text-foreground">{describe(definition)}</span>
+                <button
+                  onClick={() => onChange(definitions.filter((candidate) => candidate !== definition))}
+                  title="Issues tracked under this period keep it and show up as a deleted period"
+                  className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium transition-colors duration-200"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          className="flex flex-wrap items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            addDefinition()
+          }}
+        >
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as "range" | "sprint")}
+            aria-label="Kind of period"
+            className={inputClass}
+          >
+            <option value="sprint">Sprint cadence</option>
+            <option value="range">Date range</option>
+          </select>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={kind === "sprint" ? "Name, e.g. Sprint" : "Name, e.g. Hacktoberfest"}
+            aria-label="Period name"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            aria-label="Start date"
+            className={inputClass}
+          />
+          {kind === "range" ? (
+            <input
+              type="date"
+              value={end}
+              min={start}
+              onChange={(e) => setEnd(e.target.value)}
+              aria-label="End date"
+              className={inputClass}
+            />
+          ) : (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              every
+              <input
+                type="number"
+                min={1}
+                value={lengthDays}
+                onChange={(e) => setLengthDays(Number(e.target.value) || 1)}
+                className={`${inputClass} w-20`}
+              />
+              days
+            </label>
+          )}
+          <button type="submit" disabled={!!formError} title={formError ?? undefined} className={buttonClass}>
+            Add period
+          </button>
+          <button
+            type="button"
+            onClick={importMilestones}
+            disabled={repoKey === "/" || importing}
+            className={`${buttonClass} ml-auto`}
+          >
+            {importing ? "Importing..." : "Import milestones"}
+          </button>
+        </form>
+
+        {message && (
+          <p className={`text-sm ${message.tone === "error" ? "text-red-600" : "text-green-700"}`}>{message.text}</p>
+        )}
+      </div>
+    </details>
+  )
+}
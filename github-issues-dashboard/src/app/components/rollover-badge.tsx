@@ -0,0 +1,38 @@
+"use client"
+
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { REPEATED_ROLLOVER_THRESHOLD, rolloverCount } from "@/app/utils/carry-over"
+import { formatPeriod } from "@/app/utils/periods"
+
+type RolloverBadgeProps = {
+  issue: TrackedIssue
+  // The period being viewed; differs from issue.period for rows kept there by a copy carry-over
+  period: string
+  definitions: PeriodDefinition[]
+}
+
+export function RolloverBadge({ issue, period, definitions }: RolloverBadgeProps) {
+  if (issue.period !== period) {
+    return (
+      <span className="px-2 py-0.5 bg-muted text-muted-foreground rounded-md text-xs font-medium whitespace-nowrap">
+        Carried to {formatPeriod(issue.period, definitions)}
+      </span>
+    )
+  }
+
+  const count = rolloverCount(issue)
+  if (count === 0) return null
+
+  const repeated = count >= REPEATED_ROLLOVER_THRESHOLD
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-md text-xs font-semibold whitespace-nowrap ${
+        repeated ? "bg-orange-100 text-orange-800" : "bg-muted text-muted-foreground"
+      }`}
+      title={`Carried over from ${(issue.rollovers ?? []).map((rollover) => formatPeriod(rollover.from, definitions)).join(", ")}`}
+    >
+      ↻ {count}×
+    </span>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import type { QuarantinedRecord } from "@/app/utils/record-store"
+import { download } from "@/app/utils/download"
+
+type StorageRecoveryBannerProps = {
+  records: QuarantinedRecord[]
+  onDiscard: () => void
+}
+
+// Shown while saved records that failed to load are held aside, so nothing is lost without the user knowing
+export function StorageRecoveryBanner({ records, onDiscard }: StorageRecoveryBannerProps) {
+  const reasons = [...new Set(records.flatMap((record) => record.reasons))]
+
+  return (
+    <div
+      role="alert"
+      className="flex items-start justify-between gap-4 p-5 mb-8 border-2 border-amber-500/40 bg-amber-500/10 rounded-xl"
+    >
+      <div>
+        <p className="text-amber-600 font-semibold">
+          {records.length === 1 ? "1 saved record" : `${records.length} saved records`} could not be loaded
+        </p>
+        <p className="text-sm text-muted-foreground mt-1">
+          They were set aside instead of being deleted. Download them to fix and re-import, or discard them.
+        </p>
+        {reasons.length > 0 && (
+          <ul className="text-xs text-muted-foreground mt-2 list-disc list-inside">
+            {reasons.slice(0, 5).map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+            {reasons.length > 5 && <li>and {reasons.length - 5} more</li>}
+          </ul>
+        )}
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <button
+          onClick={() =>
+            download("quarantined-records.json", JSON.stringify(records, null, 2), "application/json")
+          }
+          className="px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200"
+        >
+          Download
+        </button>
+        <button
+          onClick={() => {
+            if (confirm("Discard the records that could not be loaded? This cannot be undone.")) onDiscard()
+          }}
+          className="px-4 py-2 text-red-600 hover:text-red-800 text-sm font-medium transition-colors duration-200"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  )
+}
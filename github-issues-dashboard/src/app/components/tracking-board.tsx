@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { AgingBadge } from "@/app/components/aging-badge"
+import { RolloverBadge } from "@/app/components/rollover-badge"
+import type { AgingRules } from "@/app/config/aging"
+import { STATUS_WORKFLOW } from "@/app/config/statuses"
+import type { ContributorStatus, TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { agingAlerts } from "@/app/utils/aging"
+import { isCopyInPeriod } from "@/app/utils/carry-over"
+import { trackedIssueKey } from "@/app/utils/helpers"
+
+type TrackingBoardProps = {
+  issues: TrackedIssue[]
+  period: string
+  periodDefinitions: PeriodDefinition[]
+  showRepo: boolean
+  agingRules: AgingRules
+  onStatusChange: (issue: TrackedIssue, status: ContributorStatus) => void
+}
+
+// Drag payloads carry the tracked-issue key, e.g. "owner/repo#12"
+const DRAG_TYPE = "application/x-tracked-issue"
+
+export function TrackingBoard({
+  issues,
+  period,
+  periodDefinitions,
+  showRepo,
+  agingRules,
+  onStatusChange,
+}: TrackingBoardProps) {
+  const [dragOver, setDragOver] = useState<ContributorStatus | null>(null)
+
+  const handleDrop = (status: ContributorStatus, key: string) => {
+    setDragOver(null)
+    const issue = issues.find((candidate) => trackedIssueKey(candidate) === key)
+    if (issue && issue.status !== status && !isCopyInPeriod(issue, period)) {
+      onStatusChange(issue, status)
+    }
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {STATUS_WORKFLOW.map((definition) => {
+        const columnIssues = issues.filter((issue) => issue.status === definition.id)
+        return (
+          <div
+            key={definition.id}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+              e.preventDefault()
+              e.dataTransfer.dropEffect = "move"
+              setDragOver(definition.id)
+            }}
+            onDragLeave={() => setDragOver((current) => (current === definition.id ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(definition.id, e.dataTransfer.getData(DRAG_TYPE))
+            }}
+            className={`flex-shrink-0 w-72 bg-card border-2 rounded-2xl transition-colors duration-200 ${
+              dragOver === definition.id ? "border-primary bg-primary/5" : "border-border"
+            }`}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+              <span className={`px-3 py-1 text-xs font-semibold rounded-lg ${definition.pillClass}`}>
+                {definition.label}
+              </span>
+              <span className="text-sm font-semibold text-muted-foreground">{columnIssues.length}</span>
+            </div>
+
+            <div className="p-3 space-y-3 min-h-32">
+              {columnIssues.map((issue) => (
+                <div
+                  key={trackedIssueKey(issue)}
+                  // Copies show how the issue stood when carried over; it moves on in its current period
+                  draggable={!isCopyInPeriod(issue, period)}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(DRAG_TYPE, trackedIssueKey(issue))
+                    e.dataTransfer.effectAllowed = "move"
+                  }}
+                  className={`bg-background border border-border rounded-xl p-3 transition-all duration-200 ${
+                    isCopyInPeriod(issue, period)
+                      ? "opacity-60"
+                      : "cursor-grab active:cursor-grabbing hover:border-primary/50 hover:shadow-md"
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="px-2 py-0.5 bg-primary/10 text-primary font-mono text-xs font-semibold rounded-md">
+                      #{issue.number}
+                    </span>
+                    {issue.statusLocked && <span className="text-xs text-muted-foreground">Manual</span>}
+                    <RolloverBadge issue={issue} period={period} definitions={periodDefinitions} />
+                    <AgingBadge alerts={agingAlerts(issue, agingRules)} />
+                  </div>
+                  <a
+                    href={issue.html_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm font-medium text-foreground hover:text-primary line-clamp-2 transition-colors duration-200"
+                    title={issue.title}
+                  >
+                    {issue.title}
+                  </a>
+                  <div className="mt-2 text-xs text-muted-foreground">
+                    {issue.contributor || issue.assignee?.login || "Unassigned"}
+                    {showRepo && <span className="block truncate">{issue.repoKey}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+type UndoToastProps = {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+  // Milliseconds before the toast closes by itself
+  timeout?: number
+}
+
+export function UndoToast({ message, onUndo, onDismiss, timeout = 8000 }: UndoToastProps) {
+  // Kept in a ref so re-renders of the parent don't restart the countdown
+  const dismiss = useRef(onDismiss)
+  useEffect(() => {
+    dismiss.current = onDismiss
+  }, [onDismiss])
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismiss.current(), timeout)
+    return () => clearTimeout(timer)
+  }, [timeout])
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 right-6 z-50 flex items-center gap-4 px-5 py-3 bg-foreground text-background rounded-xl shadow-xl"
+    >
+      <span className="text-sm font-medium">{message}</span>
+      <button onClick={onUndo} className="text-sm font-semibold text-primary hover:underline">
+        Undo
+      </button>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-sm opacity-70 hover:opacity-100">
+        ×
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+// Thresholds in days after which unfinished tracked work is flagged; 0 turns a rule off
+export type AgingRules = {
+  // No activity on GitHub since the issue's last update
+  inactiveDays: number
+  // Assigned, but still without a linked pull request
+  noPullRequestDays: number
+}
+
+export const DEFAULT_AGING_RULES: AgingRules = {
+  inactiveDays: 14,
+  noPullRequestDays: 7,
+}
+
+export const AGING_RULE_LABELS: Record<keyof AgingRules, string> = {
+  inactiveDays: "No activity for",
+  noPullRequestDays: "Assigned without a PR for",
+}
@@ -0,0 +1,71 @@
+import type { ContributorStatus } from "@/app/types/contributor"
+
+export type StatusDefinition = {
+  id: ContributorStatus
+  label: string
+  // Classes for the table badge (with border) and the summary pill
+  badgeClass: string
+  pillClass: string
+  // Whether auto-sync may assign this status; manual-only statuses are only ever set by hand
+  auto: boolean
+  // Finished work; anything else counts as unfinished and can be carried over to the next month
+  done: boolean
+}
+
+// Workflow order drives the status picker, the summary pills and the board columns
+export const STATUS_WORKFLOW: StatusDefinition[] = [
+  {
+    id: "EMPTY",
+    label: "Empty",
+    badgeClass: "bg-gray-100 text-gray-800 border-gray-200",
+    pillClass: "bg-gray-100 text-gray-800",
+    auto: true,
+    done: false,
+  },
+  {
+    id: "IN_PROGRESS",
+    label: "In Progress",
+    badgeClass: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    pillClass: "bg-yellow-100 text-yellow-800",
+    auto: true,
+    done: false,
+  },
+  {
+    id: "IN_REVIEW",
+    label: "In Review",
+    badgeClass: "bg-blue-100 text-blue-800 border-blue-200",
+    pillClass: "bg-blue-100 text-blue-800",
+    auto: true,
+    done: false,
+  },
+  {
+    id: "BLOCKED",
+    label: "Blocked",
+    badgeClass: "bg-red-100 text-red-800 border-red-200",
+    pillClass: "bg-red-100 text-red-800",
+    auto: false,
+    done: false,
+  },
+  {
+    id: "MERGED",
+    label: "Merged",
+    badgeClass: "bg-green-100 text-green-800 border-green-200",
+    pillClass: "bg-green-100 text-green-800",
+    auto: true,
+    done: true,
+  },
+  {
+    id: "CLOSED_WONTFIX",
+    label: "Won't Fix",
+    badgeClass: "bg-slate-200 text-slate-700 border-slate-300",
+    pillClass: "bg-slate-200 text-slate-700",
+    auto: false,
+    done: true,
+  },
+]
+
+const FALLBACK_STATUS = STATUS_WORKFLOW[0]
+
+export function getStatusDefinition(status: ContributorStatus): StatusDefinition {
+  return STATUS_WORKFLOW.find((definition) => definition.id === status) ?? FALLBACK_STATUS
+}
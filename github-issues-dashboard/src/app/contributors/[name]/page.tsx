@@ -0,0 +1,137 @@
+"use client"
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ContributorAvatar } from "@/app/components/contributor-avatar"
+import { ThemeToggle } from "@/app/components/theme-toggle"
+import { getStatusDefinition } from "@/app/config/statuses"
+import { useTrackedIssues } from "@/app/hooks/use-tracked-issues"
+import { formatDays, formatPercent, summarize } from "@/app/utils/analytics"
+import { contributorAvatar, contributorFromParam, isGithubLogin, issuesFor } from "@/app/utils/contributors"
+import { trackedIssueKey } from "@/app/utils/helpers"
+import { formatPeriod, sortPeriods } from "@/app/utils/periods"
+
+export default function ContributorProfilePage() {
+  const params = useParams<{ name: string }>()
+  const name = contributorFromParam(params.name)
+  const { issues, periodDefinitions, loading } = useTrackedIssues()
+
+  const contributed = issuesFor(issues, name)
+  const summary = summarize(contributed)
+  const periods = sortPeriods(
+    contributed.map((issue) => issue.period),
+    periodDefinitions,
+  )
+  const repos = Array.from(new Set(contributed.map((issue) => issue.repoKey))).sort()
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        <header className="flex items-start justify-between mb-10">
+          <div>
+            <Link
+              href="/contributors"
+              className="text-sm text-muted-foreground hover:text-primary transition-colors duration-200"
+            >
+              ← All contributors
+            </Link>
+            <div className="flex items-center gap-4 mt-3">
+              <ContributorAvatar name={name} url={contributorAvatar(issues, name)} size={64} />
+              <div>
+                <h1 className="text-4xl font-bold text-foreground tracking-tight">{name}</h1>
+                {isGithubLogin(name) && (
+                  <a
+                    href={`https://github.com/${encodeURIComponent(name)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm text-primary hover:text-primary/80 transition-colors duration-200"
+                  >
+                    github.com/{name}
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+          <ThemeToggle />
+        </header>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+          {[
+            { label: "Issues worked on", value: summary.tracked },
+            { label: "Merged", value: summary.merged },
+            { label: "Merge rate", value: formatPercent(summary.mergeRate) },
+            { label: "Avg. time to merge", value: formatDays(summary.avgDaysToMerge) },
+            { label: "Avg. cycle time", value: formatDays(summary.avgCycleDays) },
+          ].map((stat) => (
+            <div key={stat.label} className="bg-card border-2 border-border rounded-2xl p-5">
+              <p className="text-sm text-muted-foreground mb-1">{stat.label}</p>
+              <p className="text-3xl font-bold text-foreground tracking-tight">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {repos.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 mb-8">
+            <span className="text-sm text-muted-foreground mr-1">Repositories:</span>
+            {repos.map((repoKey) => (
+              <span
+                key={repoKey}
+                className="px-3 py-1 bg-card border border-border rounded-full text-xs font-medium text-foreground"
+              >
+                {repoKey}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {periods.length > 0 ? (
+          <div className="space-y-6">
+            {periods.map((period) => (
+              <div key={period} className="bg-card border-2 border-border rounded-2xl overflow-hidden">
+                <div className="px-6 py-4 bg-muted border-b border-border">
+                  <h2 className="text-lg font-semibold text-foreground">{formatPeriod(period, periodDefinitions)}</h2>
+                </div>
+                <ul className="divide-y divide-border">
+                  {contributed
+                    .filter((issue) => issue.period === period)
+                    .map((issue) => {
+                      const status = getStatusDefinition(issue.status)
+                      return (
+                        <li key={trackedIssueKey(issue)} className="px-6 py-4 flex items-center gap-4">
+                          <span className="text-sm text-muted-foreground whitespace-nowrap">{issue.repoKey}</span>
+                          <span className="text-sm font-mono text-foreground">#{issue.number}</span>
+                          <a
+                            href={issue.html_url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex-1 text-primary hover:text-primary/80 text-sm font-medium truncate transition-colors duration-200"
+                            title={issue.title}
+                          >
+                            {issue.title}
+                          </a>
+                          {issue.notes && (
+                            <span className="text-xs text-muted-foreground max-w-xs truncate" title={issue.notes}>
+                              {issue.notes}
+                            </span>
+                          )}
+                          <span className={`px-3 py-1.5 text-xs font-semibold rounded-lg border ${status.badgeClass}`}>
+                            {status.label}
+                          </span>
+                        </li>
+                      )
+                    })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-20">
+            <p className="text-foreground font-semibold text-lg mb-2">
+              {loading ? "Loading..." : `No tracked issues for ${name}`}
+            </p>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
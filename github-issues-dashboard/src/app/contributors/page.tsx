@@ -0,0 +1,113 @@
+"use client"
+
+import Link from "next/link"
+import { useState } from "react"
+import { ContributorAvatar } from "@/app/components/contributor-avatar"
+import { ThemeToggle } from "@/app/components/theme-toggle"
+import { STATUS_WORKFLOW } from "@/app/config/statuses"
+import { useTrackedIssues } from "@/app/hooks/use-tracked-issues"
+import { formatPercent } from "@/app/utils/analytics"
+import { buildLeaderboard, contributorPath } from "@/app/utils/contributors"
+import { formatPeriod, sortPeriods } from "@/app/utils/periods"
+
+export default function ContributorsPage() {
+  const { issues, periodDefinitions, loading } = useTrackedIssues()
+  const [period, setPeriod] = useState("all")
+
+  const periods = sortPeriods(
+    issues.map((issue) => issue.period),
+    periodDefinitions,
+  )
+  const leaderboard = buildLeaderboard(period === "all" ? issues : issues.filter((issue) => issue.period === period))
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        <header className="flex items-center justify-between mb-10">
+          <div>
+            <Link href="/" className="text-sm text-muted-foreground hover:text-primary transition-colors duration-200">
+              ← Back to dashboard
+            </Link>
+            <h1 className="text-4xl font-bold text-foreground mt-2 mb-3 tracking-tight">Contributors</h1>
+            <p className="text-muted-foreground text-lg">Who is working on what across tracked repositories</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <ThemeToggle />
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="px-5 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+            >
+              <option value="all">All periods</option>
+              {periods.map((key) => (
+                <option key={key} value={key}>
+                  {formatPeriod(key, periodDefinitions)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </header>
+
+        {leaderboard.length > 0 ? (
+          <div className="bg-card border-2 border-border rounded-2xl overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">#</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Contributor</th>
+                    {STATUS_WORKFLOW.map((definition) => (
+                      <th key={definition.id} className="px-4 py-4 text-center text-sm font-semibold text-foreground">
+                        {definition.label}
+                      </th>
+                    ))}
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-foreground">Merge rate</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-foreground">Periods</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {leaderboard.map((entry, index) => (
+                    <tr key={entry.contributor} className={index % 2 === 0 ? "bg-background" : "bg-muted/20"}>
+                      <td className="px-6 py-4 text-sm font-mono text-muted-foreground">{index + 1}</td>
+                      <td className="px-6 py-4">
+                        <Link
+                          href={contributorPath(entry.contributor)}
+                          className="flex items-center gap-3 text-sm font-semibold text-foreground hover:text-primary transition-colors duration-200"
+                        >
+                          <ContributorAvatar name={entry.contributor} url={entry.avatarUrl} />
+                          {entry.contributor}
+                        </Link>
+                      </td>
+                      {STATUS_WORKFLOW.map((definition) => (
+                        <td key={definition.id} className="px-4 py-4 text-center">
+                          {entry.byStatus[definition.id] > 0 ? (
+                            <span className={`px-2.5 py-1 text-xs font-semibold rounded-lg ${definition.pillClass}`}>
+                              {entry.byStatus[definition.id]}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">–</span>
+                          )}
+                        </td>
+                      ))}
+                      <td className="px-4 py-4 text-right text-sm text-foreground">{formatPercent(entry.mergeRate)}</td>
+                      <td className="px-6 py-4 text-right text-sm text-muted-foreground">{entry.periods.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-20">
+            <p className="text-foreground font-semibold text-lg mb-2">
+              {loading ? "Loading contributors..." : "No tracked issues yet"}
+            </p>
+            {!loading && (
+              <p className="text-muted-foreground">Track issues from the dashboard to see contributor activity here</p>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { FetchError } from "@/app/components/error-banner"
+import type { IssueDetail, IssueDetailResponse, IssuesErrorResponse } from "@/app/types/github"
+
+// Loads /api/issues/:owner/:repo/:number; bump `reloadKey` to fetch again past the server cache
+export function useIssueDetail(repoKey: string, number: number, token: string, reloadKey = 0) {
+  const [detail, setDetail] = useState<IssueDetail | null>(null)
+  const [error, setError] = useState<FetchError | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const [owner, repo] = repoKey.split("/")
+    const params = reloadKey > 0 ? "?fresh=1" : ""
+    const headers: HeadersInit = token ? { "X-GitHub-Token": token } : {}
+
+    setLoading(true)
+    setError(null)
+    fetch(`/api/issues/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${number}${params}`, { headers })
+      .then((res) => res.json() as Promise<IssueDetailResponse | IssuesErrorResponse>)
+      .then((data) => {
+        if (cancelled) return
+        if ("error" in data) {
+          setError({ code: data.code, message: data.error })
+        } else {
+          setDetail(data.detail)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError({ code: "network", message: "Could not reach the dashboard server" })
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [repoKey, number, token, reloadKey])
+
+  return { detail, error, loading }
+}
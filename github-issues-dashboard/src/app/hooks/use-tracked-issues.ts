@@ -0,0 +1,53 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { loadPeriodDefinitions, openStorage, unavailableStorage } from "@/app/utils/storage"
+import {
+  fetchServerPeriods,
+  fetchServerTrackedIssues,
+  loadSyncedKeys,
+  loadSyncedPeriodIds,
+  reconcilePeriodsWithServer,
+  reconcileWithServer,
+} from "@/app/utils/tracking-sync"
+
+// Read-only view of tracked issues for pages other than the dashboard:
+// the browser copy renders as soon as it is read and the shared server copy is layered on top when reachable.
+export function useTrackedIssues() {
+  const [issues, setIssues] = useState<TrackedIssue[]>([])
+  // Custom tracking periods, shared through the server like tracked issues
+  const [periodDefinitions, setPeriodDefinitions] = useState<PeriodDefinition[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setPeriodDefinitions(loadPeriodDefinitions())
+    Promise.all([
+      openStorage()
+        .catch(unavailableStorage)
+        .then(({ trackedIssues }) => {
+          if (!cancelled) setIssues(trackedIssues)
+        }),
+      fetchServerTrackedIssues(),
+      fetchServerPeriods(),
+    ]).then(([, serverIssues, serverDefinitions]) => {
+      if (cancelled) return
+      if (serverIssues) {
+        const syncedKeys = loadSyncedKeys()
+        setIssues((local) => reconcileWithServer(local, serverIssues, syncedKeys))
+      }
+      if (serverDefinitions) {
+        const syncedIds = loadSyncedPeriodIds()
+        setPeriodDefinitions((local) => reconcilePeriodsWithServer(local, serverDefinitions, syncedIds))
+      }
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { issues, periodDefinitions, loading }
+}
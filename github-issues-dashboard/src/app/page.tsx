@@ -1,24 +1,110 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Fragment, useEffect, useRef, useState } from "react"
 import { ThemeToggle } from "@/app/components/theme-toggle"
-
-type Issue = {
-  number: number
-  title: string
-  html_url: string
-  labels: { name: string; color: string }[]
-  assignee: { login: string } | null
-  comments: number
-  updated_at: string
-  merged?: boolean
-}
-
-type TrackedIssue = Issue & {
-  status: "EMPTY" | "IN_PROGRESS" | "MERGED"
-  dateAdded: string
-  monthYear: string
-}
+import { AgingBadge } from "@/app/components/aging-badge"
+import { AgingRulesPanel } from "@/app/components/aging-rules-panel"
+import { AnalyticsView } from "@/app/components/analytics-view"
+import { IssueBulkActions, TrackingBulkActions } from "@/app/components/bulk-actions"
+import { CarryOverPanel } from "@/app/components/carry-over-panel"
+import { DataTransferPanel } from "@/app/components/data-transfer-panel"
+import { EditableCell } from "@/app/components/editable-cell"
+import { ErrorBanner, type FetchError } from "@/app/components/error-banner"
+import { HistoryTimeline } from "@/app/components/history-timeline"
+import { IssueActionsPanel } from "@/app/components/issue-actions-panel"
+import { IssueDetailDrawer } from "@/app/components/issue-detail-drawer"
+import { IssueSearch } from "@/app/components/issue-search"
+import { PeriodSelect } from "@/app/components/period-select"
+import { PeriodsPanel } from "@/app/components/periods-panel"
+import { RolloverBadge } from "@/app/components/rollover-badge"
+import { StorageRecoveryBanner } from "@/app/components/storage-recovery-banner"
+import { TrackingBoard } from "@/app/components/tracking-board"
+import { UndoToast } from "@/app/components/undo-toast"
+import { DEFAULT_AGING_RULES, type AgingRules } from "@/app/config/aging"
+import { STATUS_WORKFLOW, getStatusDefinition } from "@/app/config/statuses"
+import {
+  DEFAULT_ISSUE_FILTERS,
+  type Issue,
+  type IssueFilters,
+  type IssuesErrorResponse,
+  type IssuesResponse,
+  type PullRequestState,
+  type RateLimit,
+} from "@/app/types/github"
+import type { Rollover, TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { agingAlerts, needsAttention, sanitizeAgingRules } from "@/app/utils/aging"
+import {
+  asListedInPeriod,
+  carryOver,
+  isCopyInPeriod,
+  isListedInPeriod,
+  isUnfinished,
+  listedPeriods,
+  liveRecordsFor,
+} from "@/app/utils/carry-over"
+import { isGithubLogin } from "@/app/utils/contributors"
+import { dashboardUrl, parseDashboardUrl, type DashboardLocation, type DashboardTab } from "@/app/utils/dashboard-url"
+import { applyOptimistic, sendIssueAction, writableFields, type IssueAction } from "@/app/utils/github-write"
+import {
+  applyStatus,
+  deriveStatus,
+  getCurrentMonthYear,
+  groupByRepo,
+  isSameTrackedIssue,
+  repoKeyOf,
+  repoNameError,
+  trackedIssueKey,
+} from "@/app/utils/helpers"
+import { recordChanges, startHistory } from "@/app/utils/history"
+import {
+  knownAssignees,
+  knownLabels,
+  matchesQuery,
+  parseQuery,
+  type SavedSearch,
+} from "@/app/utils/issue-query"
+import {
+  availablePeriods,
+  formatPeriod,
+  formatPeriodDates,
+  isPeriodKey,
+  nextPeriod,
+  periodKind,
+} from "@/app/utils/periods"
+import type { QuarantinedRecord } from "@/app/utils/record-store"
+import {
+  clearQuarantine,
+  clearStoredRecords,
+  isString,
+  isStringList,
+  loadFromLocalStorage,
+  loadGithubToken,
+  loadPeriodDefinitions,
+  openStorage,
+  saveGithubToken,
+  saveToLocalStorage,
+  saveTrackedIssues,
+  unavailableStorage,
+} from "@/app/utils/storage"
+import { mergeImported } from "@/app/utils/tracking-export"
+import {
+  diffPeriodDefinitions,
+  diffTrackedIssues,
+  fetchServerPeriods,
+  fetchServerTrackedIssues,
+  loadSyncedKeys,
+  loadSyncedPeriodIds,
+  pushPeriodChanges,
+  pushTrackingChanges,
+  reconcilePeriodsWithServer,
+  reconcileWithServer,
+  saveSyncedKeys,
+  saveSyncedPeriodIds,
+  subscribeToTrackingEvents,
+  type SyncStatus,
+} from "@/app/utils/tracking-sync"
 
 function parseGithubUrl(url: string) {
   try {
@@ -31,42 +117,12 @@ function parseGithubUrl(url: string) {
   return null
 }
 
-function getCurrentMonthYear(): string {
-  const now = new Date()
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
-}
-
-function formatMonthYear(monthYear: string): string {
-  const [year, month] = monthYear.split("-")
-  const date = new Date(Number.parseInt(year), Number.parseInt(month) - 1)
-  return date.toLocaleDateString("en-US", { month: "long", year: "numeric" })
-}
-
-function getAvailableMonths(trackedIssues: TrackedIssue[]): string[] {
-  const months = new Set(trackedIssues.map((issue) => issue.monthYear))
-  return Array.from(months).sort().reverse()
-}
-
-function saveToLocalStorage(key: string, data: any) {
-  try {
-    localStorage.setItem(key, JSON.stringify(data))
-  } catch (error) {
-    console.error("Failed to save to localStorage:", error)
-  }
-}
-
-function loadFromLocalStorage<T>(key: string, defaultValue: T): T {
-  try {
-    const item = localStorage.getItem(key)
-    return item ? JSON.parse(item) : defaultValue
-  } catch (error) {
-    console.error("Failed to load from localStorage:", error)
-    return defaultValue
-  }
+function formatResetTime(rateLimit: RateLimit): string {
+  return new Date(rateLimit.reset * 1000).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })
 }
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<"issues" | "tracking">("issues")
+  const [activeTab, setActiveTab] = useState<DashboardTab>("issues")
   const [owner, setOwner] = useState("")
   const [repo, setRepo] = useState("")
   const [issues, setIssues] = useState<Issue[]>([])
@@ -74,33 +130,211 @@ export default function Home() {
   const [q, setQ] = useState("")
   const [url, setUrl] = useState("")
   const [trackedIssues, setTrackedIssues] = useState<TrackedIssue[]>([])
-  const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonthYear())
+  const [selectedPeriod, setSelectedPeriod] = useState<string>(getCurrentMonthYear())
+  // Date ranges, sprint cadences and milestones; calendar months are always available
+  const [periodDefinitions, setPeriodDefinitions] = useState<PeriodDefinition[]>([])
   const [isInitialized, setIsInitialized] = useState(false)
+  // Stored records that could not be read back, kept aside until the user downloads or discards them
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([])
+  const [token, setToken] = useState("")
+  // Off by default: the token is then kept for this tab only, see loadGithubToken
+  const [rememberToken, setRememberToken] = useState(false)
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null)
+  const [fetchError, setFetchError] = useState<FetchError | null>(null)
+  // Parts of the last /api/issues response that failed without failing the request
+  const [fetchWarnings, setFetchWarnings] = useState<string[]>([])
+  const [filters, setFilters] = useState<IssueFilters>(DEFAULT_ISSUE_FILTERS)
+  const [nextPage, setNextPage] = useState<number | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Repo the user last asked to load, shown in the URL even while it is loading or after it failed
+  const [requestedRepo, setRequestedRepo] = useState<{ owner: string; repo: string } | null>(null)
+  // Repo the current `issues` list was fetched from; the inputs may have been edited since
+  const [loadedRepo, setLoadedRepo] = useState<{ owner: string; repo: string } | null>(null)
+  const [savedRepos, setSavedRepos] = useState<string[]>([])
+  // Named issue searches, keyed by repoKey
+  const [savedSearches, setSavedSearches] = useState<Record<string, SavedSearch[]>>({})
+  const [trackingScope, setTrackingScope] = useState<"current" | "all">("current")
+  const [agingRules, setAgingRules] = useState<AgingRules>(DEFAULT_AGING_RULES)
+  // Limits the tracking views to issues flagged by the aging rules
+  const [attentionOnly, setAttentionOnly] = useState(false)
+  const [trackingView, setTrackingView] = useState<"table" | "board">("table")
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("offline")
+  // Ticked issue numbers in the Issues list (always the loaded repo) and trackedIssueKeys in the table
+  const [selectedIssues, setSelectedIssues] = useState<Set<number>>(new Set())
+  const [selectedTracked, setSelectedTracked] = useState<Set<string>>(new Set())
+  const [undoAction, setUndoAction] = useState<{ id: number; message: string; previous: TrackedIssue[] } | null>(
+    null,
+  )
+  // Table row (by trackedIssueKey) with an open history or GitHub panel, and the issue card showing its GitHub panel
+  const [expandedRow, setExpandedRow] = useState<{ key: string; panel: "history" | "github" } | null>(null)
+  const [openIssueActions, setOpenIssueActions] = useState<number | null>(null)
+  // Issue shown in the detail drawer, from either the Issues list or the tracking table
+  const [detailIssue, setDetailIssue] = useState<Pick<TrackedIssue, "repoKey" | "number"> | null>(null)
+  // What the server store is known to hold; null until it has been reached
+  const serverSnapshot = useRef<TrackedIssue[] | null>(null)
+  // The same for tracking period definitions
+  const periodSnapshot = useRef<PeriodDefinition[] | null>(null)
+  // Arguments of the latest fetchIssues call, replayed by the error banner's retry
+  const lastRequest = useRef<{
+    page: number
+    fresh: boolean
+    target: { owner: string; repo: string }
+    filters: IssueFilters
+  } | null>(null)
+
+  // Written once the URL has been brought in line with the restored state, so that first write replaces the entry
+  const urlSynced = useRef(false)
+
+  // Set when browser storage failed to open, so the empty fallback list never overwrites what is stored
+  const storageUnavailable = useRef(false)
+
+  // Puts the dashboard in the state a URL describes; filters missing from the URL go back to their defaults
+  const applyLocation = (location: DashboardLocation) => {
+    setOwner(location.owner)
+    setRepo(location.repo)
+    setActiveTab(location.tab)
+    if (location.period) setSelectedPeriod(location.period)
+    setQ(location.q)
+    setFilters({ ...DEFAULT_ISSUE_FILTERS, ...location.filters })
+  }
 
   useEffect(() => {
-    const savedTrackedIssues = loadFromLocalStorage<TrackedIssue[]>("trackedIssues", [])
-    const savedSelectedMonth = loadFromLocalStorage<string>("selectedMonth", getCurrentMonthYear())
-    const savedOwner = loadFromLocalStorage<string>("repoOwner", "")
-    const savedRepo = loadFromLocalStorage<string>("repoName", "")
-
-    setTrackedIssues(savedTrackedIssues)
-    setSelectedMonth(savedSelectedMonth)
-    setOwner(savedOwner)
-    setRepo(savedRepo)
-    setIsInitialized(true)
+    let cancelled = false
+    // Tracked issues load asynchronously, after any pending storage migrations have run
+    openStorage()
+      .catch((error) => {
+        storageUnavailable.current = true
+        return unavailableStorage(error)
+      })
+      .then(({ trackedIssues: savedTrackedIssues, quarantined: savedQuarantine }) => {
+        if (cancelled) return
+        const savedSelectedPeriod = loadFromLocalStorage<unknown>("selectedPeriod", getCurrentMonthYear())
+        const savedOwner = loadFromLocalStorage("repoOwner", "", isString)
+        const savedRepo = loadFromLocalStorage("repoName", "", isString)
+        const savedToken = loadGithubToken()
+        const savedFilters = loadFromLocalStorage<IssueFilters>("issueFilters", DEFAULT_ISSUE_FILTERS)
+        const savedRepoList = loadFromLocalStorage("savedRepos", [], isStringList)
+        const savedTrackingView = loadFromLocalStorage<"table" | "board">("trackingView", "table")
+        const savedSearchList = loadFromLocalStorage<Record<string, SavedSearch[]>>("savedSearches", {})
+        const savedAgingRules = loadFromLocalStorage<unknown>("agingRules", DEFAULT_AGING_RULES)
+
+        setTrackedIssues(savedTrackedIssues)
+        setQuarantined(savedQuarantine)
+        setSavedRepos(
+          savedRepoList.length === 0 && savedOwner && savedRepo ? [`${savedOwner}/${savedRepo}`] : savedRepoList,
+        )
+        setSelectedPeriod(isPeriodKey(savedSelectedPeriod) ? savedSelectedPeriod : getCurrentMonthYear())
+        setPeriodDefinitions(loadPeriodDefinitions())
+        setOwner(savedOwner)
+        setRepo(savedRepo)
+        setToken(savedToken.token)
+        setRememberToken(savedToken.remember)
+        setFilters({ ...DEFAULT_ISSUE_FILTERS, ...savedFilters })
+        if (savedOwner && savedRepo) setRequestedRepo({ owner: savedOwner, repo: savedRepo })
+        // A shared link wins over whatever this browser last looked at
+        const linked = parseDashboardUrl(window.location.pathname, window.location.search)
+        if (linked) {
+          applyLocation(linked)
+          setRequestedRepo({ owner: linked.owner, repo: linked.repo })
+        }
+        setTrackingView(savedTrackingView)
+        setSavedSearches(savedSearchList)
+        setAgingRules(sanitizeAgingRules(savedAgingRules))
+        setIsInitialized(true)
+      })
+    return () => {
+      cancelled = true
+    }
   }, [])
 
   useEffect(() => {
-    if (isInitialized) {
-      saveToLocalStorage("trackedIssues", trackedIssues)
+    if (isInitialized && !storageUnavailable.current) {
+      saveTrackedIssues(trackedIssues)
     }
   }, [trackedIssues, isInitialized])
 
+  // The browser copy stays the offline copy; changes are pushed to /api/tracking whenever it is reachable
+  useEffect(() => {
+    if (!isInitialized) return
+    const timer = setTimeout(async () => {
+      const baseline = serverSnapshot.current
+      if (!baseline) {
+        const serverIssues = await fetchServerTrackedIssues()
+        if (!serverIssues) {
+          setSyncStatus("offline")
+          return
+        }
+        // Issues only tracked locally (e.g. while offline) are uploaded next run; ones deleted on the server are dropped
+        const syncedKeys = loadSyncedKeys()
+        serverSnapshot.current = serverIssues
+        saveSyncedKeys(serverIssues)
+        setTrackedIssues((local) => reconcileWithServer(local, serverIssues, syncedKeys))
+        setSyncStatus("synced")
+        return
+      }
+
+      const changes = diffTrackedIssues(baseline, trackedIssues)
+      if (changes.upserts.length === 0 && changes.deletions.length === 0) return
+      setSyncStatus("syncing")
+      const ok = await pushTrackingChanges(changes)
+      // Clear All drops the baseline while a push is in flight; it must not come back as the old list
+      if (ok && serverSnapshot.current === baseline) {
+        serverSnapshot.current = trackedIssues
+        saveSyncedKeys(trackedIssues)
+      }
+      setSyncStatus(ok ? "synced" : "offline")
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [trackedIssues, isInitialized])
+
+  // Webhook updates are already stored on the server, so the sync baseline moves along with them
+  useEffect(() => {
+    if (!isInitialized) return
+    return subscribeToTrackingEvents((updated) => {
+      if (serverSnapshot.current) {
+        serverSnapshot.current = mergeImported(serverSnapshot.current, updated)
+        saveSyncedKeys(serverSnapshot.current)
+      }
+      setTrackedIssues((local) => mergeImported(local, updated))
+    })
+  }, [isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("selectedPeriod", selectedPeriod)
+    }
+  }, [selectedPeriod, isInitialized])
+
   useEffect(() => {
     if (isInitialized) {
-      saveToLocalStorage("selectedMonth", selectedMonth)
+      saveToLocalStorage("trackingPeriods", periodDefinitions)
     }
-  }, [selectedMonth, isInitialized])
+  }, [periodDefinitions, isInitialized])
+
+  // Period definitions sync like tracked issues, so shared period keys resolve on every dashboard
+  useEffect(() => {
+    if (!isInitialized) return
+    const timer = setTimeout(async () => {
+      const baseline = periodSnapshot.current
+      if (!baseline) {
+        const serverDefinitions = await fetchServerPeriods()
+        if (!serverDefinitions) return
+        const syncedIds = loadSyncedPeriodIds()
+        periodSnapshot.current = serverDefinitions
+        saveSyncedPeriodIds(serverDefinitions)
+        setPeriodDefinitions((local) => reconcilePeriodsWithServer(local, serverDefinitions, syncedIds))
+        return
+      }
+
+      const changes = diffPeriodDefinitions(baseline, periodDefinitions)
+      if (changes.upserts.length === 0 && changes.deletions.length === 0) return
+      if ((await pushPeriodChanges(changes)) && periodSnapshot.current === baseline) {
+        periodSnapshot.current = periodDefinitions
+        saveSyncedPeriodIds(periodDefinitions)
+      }
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [periodDefinitions, isInitialized])
 
   useEffect(() => {
     if (isInitialized) {
@@ -109,137 +343,527 @@ export default function Home() {
     }
   }, [owner, repo, isInitialized])
 
-  const fetchIssues = async () => {
-    setLoading(true)
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("savedRepos", savedRepos)
+    }
+  }, [savedRepos, isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("savedSearches", savedSearches)
+    }
+  }, [savedSearches, isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("trackingView", trackingView)
+    }
+  }, [trackingView, isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("agingRules", agingRules)
+    }
+  }, [agingRules, isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveGithubToken(token, rememberToken)
+    }
+  }, [token, rememberToken, isInitialized])
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveToLocalStorage("issueFilters", filters)
+    }
+  }, [filters, isInitialized])
+
+  const updateFilter = <K extends keyof IssueFilters>(key: K, value: IssueFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  // Page 1 replaces the list; later pages are appended for "Load more".
+  // `fresh` asks the server to revalidate with GitHub instead of serving its cache.
+  // `target` fetches another repo without waiting for the owner/repo inputs to update.
+  const fetchIssues = async ({
+    page = 1,
+    fresh = false,
+    target = { owner, repo },
+    filters: requestFilters = filters,
+  }: {
+    page?: number
+    fresh?: boolean
+    target?: { owner: string; repo: string }
+    filters?: IssueFilters
+  } = {}) => {
+    const append = page > 1
+    const targetKey = repoKeyOf(target.owner, target.repo)
+    lastRequest.current = { page, fresh, target, filters: requestFilters }
+    if (!append) setRequestedRepo(target)
+    const fail = (error: FetchError) => {
+      setFetchError(error)
+      if (!append) {
+        setIssues([])
+        setNextPage(null)
+        setLoadedRepo(null)
+      }
+    }
+    const nameError = repoNameError(target.owner, target.repo)
+    if (nameError) {
+      fail({ code: "invalid_request", message: nameError })
+      return
+    }
+    if (append) {
+      setLoadingMore(true)
+    } else {
+      setLoading(true)
+    }
     try {
-      const params = new URLSearchParams({ owner, repo })
-      const res = await fetch(`/api/issues?${params}`)
-      const data = await res.json()
-      setIssues(data.issues || [])
+      const params = new URLSearchParams({ owner: target.owner, repo: target.repo, page: String(page) })
+      if (fresh) params.set("fresh", "1")
+      for (const [key, value] of Object.entries(requestFilters)) {
+        if (value) params.set(key, value)
+      }
+      const headers: HeadersInit = token ? { "X-GitHub-Token": token } : {}
+      const res = await fetch(`/api/issues?${params}`, { headers })
+      const data: IssuesResponse | IssuesErrorResponse = await res.json()
+      setRateLimit(data.rateLimit)
+      if ("error" in data) {
+        fail({
+          code: data.code,
+          message:
+            data.code === "rate_limited" && data.rateLimit
+              ? `${data.error}. Quota resets at ${formatResetTime(data.rateLimit)}.`
+              : data.error,
+        })
+        return
+      }
+      setFetchError(null)
+      setFetchWarnings(data.warnings)
+      setNextPage(data.nextPage)
+      setLoadedRepo(target)
+      setSavedRepos((prev) =>
+        prev.some((saved) => saved.toLowerCase() === targetKey) ? prev : [...prev, `${target.owner}/${target.repo}`],
+      )
+      setIssues((prev) => {
+        if (!append) return data.issues || []
+        const seen = new Set(prev.map((i) => i.number))
+        return [...prev, ...data.issues.filter((i) => !seen.has(i.number))]
+      })
+    } catch {
+      // The dashboard's own server is unreachable, or answered with something other than JSON
+      fail({ code: "network", message: "Could not reach the dashboard server. Check your connection and try again." })
     } finally {
       setLoading(false)
+      setLoadingMore(false)
     }
   }
 
+  // Repeats the last fetchIssues call, e.g. a failed "Load more" page rather than page 1
+  const retryFetch = () => {
+    if (lastRequest.current) fetchIssues(lastRequest.current)
+  }
+
   useEffect(() => {
-    if (isInitialized) {
+    // Nothing to load until a repository has been entered
+    if (isInitialized && owner && repo) {
       fetchIssues()
     }
   }, [isInitialized])
 
+  // The URL mirrors the view so it can be shared; moving to another repo, tab or period adds a history entry
+  useEffect(() => {
+    if (!isInitialized) return
+    const next = dashboardUrl({
+      owner: requestedRepo?.owner ?? "",
+      repo: requestedRepo?.repo ?? "",
+      tab: activeTab,
+      period: selectedPeriod,
+      q,
+      filters,
+    })
+    const firstSync = !urlSynced.current
+    urlSynced.current = true
+    if (next === `${window.location.pathname}${window.location.search}`) return
+    if (firstSync || next.split("?")[0] === window.location.pathname) {
+      window.history.replaceState(null, "", next)
+    } else {
+      window.history.pushState(null, "", next)
+    }
+  }, [isInitialized, requestedRepo, activeTab, selectedPeriod, q, filters])
+
+  // Back and forward restore the view a URL describes, loading its repo when that changed
+  const restoreLocation = () => {
+    const location = parseDashboardUrl(window.location.pathname, window.location.search)
+    if (!location) return
+    applyLocation(location)
+    const target = { owner: location.owner, repo: location.repo }
+    if (!requestedRepo || repoKeyOf(requestedRepo.owner, requestedRepo.repo) !== repoKeyOf(target.owner, target.repo)) {
+      fetchIssues({ target, filters: { ...DEFAULT_ISSUE_FILTERS, ...location.filters } })
+    }
+  }
+
+  // Kept in a ref so the popstate listener always sees the latest state
+  const restoreLocationRef = useRef(restoreLocation)
+  useEffect(() => {
+    restoreLocationRef.current = restoreLocation
+  })
+
+  useEffect(() => {
+    const onPopState = () => restoreLocationRef.current()
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [])
+
+  const loadedRepoKey = loadedRepo ? repoKeyOf(loadedRepo.owner, loadedRepo.repo) : null
+
+  // Ticked issues belong to the repo they were listed from
+  useEffect(() => {
+    setSelectedIssues(new Set())
+  }, [loadedRepoKey])
+
   // Update tracked issues status when issues are refreshed
   useEffect(() => {
-    if (issues.length > 0 && trackedIssues.length > 0) {
+    if (issues.length > 0 && trackedIssues.length > 0 && loadedRepoKey) {
       setTrackedIssues(prev => 
         prev.map(tracked => {
+          if (tracked.repoKey !== loadedRepoKey) return tracked
           const updatedIssue = issues.find(i => i.number === tracked.number)
           if (!updatedIssue) return tracked
 
-          let newStatus = tracked.status
-          if (updatedIssue.merged) {
-            newStatus = "MERGED"
-          } else if (updatedIssue.assignee) {
-            newStatus = "IN_PROGRESS"
-          } else {
-            newStatus = "EMPTY"
-          }
-
-          return {
-            ...tracked,
-            ...updatedIssue,
-            status: newStatus
-          }
+          const newStatus = tracked.statusLocked ? tracked.status : deriveStatus(updatedIssue)
+
+          // Only GitHub-owned fields are refreshed; our contributor and notes stay as entered
+          const refreshed = applyStatus(
+            {
+              ...tracked,
+              ...updatedIssue,
+              statusLocked: tracked.statusLocked,
+              contributor: tracked.contributor,
+              notes: tracked.notes,
+            },
+            newStatus,
+          )
+          return recordChanges(tracked, refreshed, "auto")
         })
       )
     }
   }, [issues])
 
-  const filtered = issues.filter(
-    (i) =>
-      i.title.toLowerCase().includes(q.toLowerCase()) ||
-      i.labels.some((l) => l.name.toLowerCase().includes(q.toLowerCase())) ||
-      String(i.number).includes(q),
-  )
+  const activeRepoKey = loadedRepoKey ?? repoKeyOf(owner, repo)
+
+  const isTracked = (issue: Issue) =>
+    trackedIssues.some((t) => isSameTrackedIssue(t, { repoKey: activeRepoKey, number: issue.number }))
+
+  const switchRepo = (fullName: string) => {
+    const [nextOwner, nextRepo] = fullName.split("/")
+    setOwner(nextOwner)
+    setRepo(nextRepo)
+    fetchIssues({ target: { owner: nextOwner, repo: nextRepo } })
+  }
+
+  const forgetRepo = (fullName: string) => {
+    setSavedRepos((prev) => prev.filter((saved) => saved !== fullName))
+  }
+
+  const query = parseQuery(q)
+  const filtered = issues.filter((i) => matchesQuery(i, query, { isTracked }))
+
+  const repoSearches = savedSearches[activeRepoKey] ?? []
+
+  // Saving under an existing name replaces that search
+  const saveSearch = (name: string) => {
+    setSavedSearches((prev) => ({
+      ...prev,
+      [activeRepoKey]: [...(prev[activeRepoKey] ?? []).filter((search) => search.name !== name), { name, query: q }],
+    }))
+  }
+
+  const deleteSearch = (name: string) => {
+    setSavedSearches((prev) => ({
+      ...prev,
+      [activeRepoKey]: (prev[activeRepoKey] ?? []).filter((search) => search.name !== name),
+    }))
+  }
 
   const handleUrlSubmit = () => {
     const parsed = parseGithubUrl(url)
     if (parsed) {
       setOwner(parsed.owner)
       setRepo(parsed.repo)
-      alert("Now click 'Refresh' to fetch issues.")
+      fetchIssues({ target: parsed })
     } else {
-      alert("Invalid GitHub URL. Please use format: https://github.com/owner/repo")
+      setFetchError({
+        code: "invalid_request",
+        message: "Invalid GitHub URL. Please use format: https://github.com/owner/repo",
+      })
     }
   }
 
-  const addToTracking = (issue: Issue) => {
-    const isAlreadyTracked = trackedIssues.some((t) => t.number === issue.number)
-    if (!isAlreadyTracked) {
-      // Determine initial status based on assignee and merge status
-      let status: TrackedIssue["status"] = "EMPTY";
-      if (issue.merged) {
-        status = "MERGED";
-      } else if (issue.assignee) {
-        status = "IN_PROGRESS";
-      }
-
-      const trackedIssue: TrackedIssue = {
-        ...issue,
-        status,
-        dateAdded: new Date().toISOString(),
-        monthYear: selectedMonth,
-      }
-      setTrackedIssues((prev) => [...prev, trackedIssue])
+  // Issues that are already tracked are skipped
+  const trackIssues = (toTrack: Issue[], period: string) => {
+    const added = toTrack
+      .filter((issue) => !isTracked(issue))
+      .map((issue) =>
+        startHistory(
+          applyStatus(
+            {
+              ...issue,
+              repoKey: activeRepoKey,
+              status: "EMPTY",
+              dateAdded: new Date().toISOString(),
+              period,
+            },
+            deriveStatus(issue),
+          ),
+          "manual",
+        ),
+      )
+    if (added.length > 0) {
+      setTrackedIssues((prev) => [...prev, ...added])
     }
   }
 
-  const updateIssueStatus = (issueNumber: number, newStatus: TrackedIssue["status"]) => {
+  const addToTracking = (issue: Issue) => trackIssues([issue], selectedPeriod)
+
+  // Keeps the previous versions of `targets` so the change can be reverted from the toast. The stored records are
+  // kept rather than the rows as listed, which for copies in an earlier period show a snapshot.
+  const offerUndo = (message: string, targets: TrackedIssue[]) => {
+    setUndoAction({ id: Date.now(), message, previous: liveRecordsFor(trackedIssues, targets) })
+  }
+
+  const undoLastAction = () => {
+    if (!undoAction) return
+    setTrackedIssues((prev) => mergeImported(prev, undoAction.previous))
+    setUndoAction(null)
+  }
+
+  const updateMatching = (
+    targets: Pick<TrackedIssue, "repoKey" | "number">[],
+    change: (issue: TrackedIssue) => TrackedIssue,
+  ) => {
     setTrackedIssues((prev) =>
-      prev.map((issue) => (issue.number === issueNumber ? { ...issue, status: newStatus } : issue)),
+      prev.map((issue) => (targets.some((target) => isSameTrackedIssue(issue, target)) ? change(issue) : issue)),
     )
   }
 
-  const removeFromTracking = (issueNumber: number) => {
-    setTrackedIssues((prev) => prev.filter((issue) => issue.number !== issueNumber))
+  const updateTrackedIssues = (
+    targets: TrackedIssue[],
+    changes: Partial<Pick<TrackedIssue, "contributor" | "notes">>,
+  ) => {
+    updateMatching(targets, (issue) => recordChanges(issue, { ...issue, ...changes }, "manual"))
+  }
+
+  // A hand-picked status is locked so the next refresh does not overwrite it
+  const updateIssueStatus = (targets: TrackedIssue[], newStatus: TrackedIssue["status"]) => {
+    updateMatching(targets, (issue) =>
+      recordChanges(issue, { ...applyStatus(issue, newStatus), statusLocked: true }, "manual"),
+    )
+  }
+
+  // Unlocking hands the status back to auto-sync right away
+  // Someone clicked Unlock, so the change is manual and doesn't count as activity on the issue
+  const unlockIssueStatus = (target: TrackedIssue) => {
+    updateMatching([target], (issue) =>
+      recordChanges(issue, { ...applyStatus(issue, deriveStatus(issue)), statusLocked: false }, "manual"),
+    )
+  }
+
+  // A plain period edit, e.g. to fix a mistake; carry-overs are recorded separately
+  const moveToPeriod = (targets: TrackedIssue[], period: string) => {
+    updateMatching(targets, (issue) => recordChanges(issue, { ...issue, period }, "manual"))
+  }
+
+  const carryOverUnfinished = (mode: Rollover["mode"]) => {
+    const next = nextPeriod(selectedPeriod, periodDefinitions)
+    if (!next) return
+    updateMatching(unfinishedThisPeriod, (issue) => carryOver(issue, next, mode))
+    offerUndo(
+      `Carried ${plural(unfinishedThisPeriod.length)} over to ${formatPeriod(next, periodDefinitions)}`,
+      unfinishedThisPeriod,
+    )
+    setSelectedPeriod(next)
+  }
+
+  const removeFromTracking = (targets: TrackedIssue[]) => {
+    setTrackedIssues((prev) => prev.filter((issue) => !targets.some((target) => isSameTrackedIssue(issue, target))))
+  }
+
+  // Write routes never use the server's token, so only a token entered here allows writes
+  const canWriteToGithub = Boolean(token)
+
+  // Applies a GitHub-side change wherever the issue is shown: the Issues list and its tracked copy
+  // History is only recorded against `recordFrom`, the tracked copy from before an accepted change,
+  // so optimistic updates and their rollbacks leave no trace
+  const patchIssue = (
+    repoKey: string,
+    number: number,
+    fields: (issue: Issue) => Partial<Issue>,
+    recordFrom?: TrackedIssue,
+  ) => {
+    if (repoKey === loadedRepoKey) {
+      setIssues((prev) => prev.map((issue) => (issue.number === number ? { ...issue, ...fields(issue) } : issue)))
+    }
+    updateMatching([{ repoKey, number }], (tracked) => {
+      const next = { ...tracked, ...fields(tracked) }
+      const patched = applyStatus(next, tracked.statusLocked ? tracked.status : deriveStatus(next))
+      return recordFrom ? recordChanges({ ...recordFrom, history: tracked.history }, patched, "manual") : patched
+    })
+  }
+
+  // Optimistic: the change shows at once and is rolled back if GitHub refuses it
+  const runIssueAction = async (repoKey: string, target: Issue, action: IssueAction): Promise<string | null> => {
+    const before = writableFields(target)
+    const trackedBefore = trackedIssues.find((issue) => isSameTrackedIssue(issue, { repoKey, number: target.number }))
+    patchIssue(repoKey, target.number, (issue) => writableFields(applyOptimistic(issue, action)))
+    const result = await sendIssueAction(repoKey, target.number, action, token)
+    if ("error" in result) {
+      patchIssue(repoKey, target.number, () => before)
+      return result.error
+    }
+    patchIssue(repoKey, target.number, () => writableFields(result.issue), trackedBefore)
+    return null
+  }
+
+  const toggleRowPanel = (key: string, panel: "history" | "github") => {
+    setExpandedRow((open) => (open?.key === key && open.panel === panel ? null : { key, panel }))
+  }
+
+  const plural = (count: number) => `${count} issue${count !== 1 ? "s" : ""}`
+
+  const bulkMove = (period: string) => {
+    moveToPeriod(selectedRows, period)
+    offerUndo(`Moved ${plural(selectedRows.length)} to ${formatPeriod(period, periodDefinitions)}`, selectedRows)
+    setSelectedTracked(new Set())
+  }
+
+  const bulkSetStatus = (status: TrackedIssue["status"]) => {
+    updateIssueStatus(selectedRows, status)
+    offerUndo(`Set ${plural(selectedRows.length)} to ${getStatusDefinition(status).label}`, selectedRows)
+  }
+
+  const bulkAssign = (contributor: string) => {
+    updateTrackedIssues(selectedRows, { contributor })
+    offerUndo(
+      contributor
+        ? `Assigned ${plural(selectedRows.length)} to ${contributor}`
+        : `Cleared contributor on ${plural(selectedRows.length)}`,
+      selectedRows,
+    )
   }
 
+  const bulkRemove = () => {
+    removeFromTracking(selectedRows)
+    offerUndo(`Removed ${plural(selectedRows.length)}`, selectedRows)
+    setSelectedTracked(new Set())
+  }
+
+  const toggleSelection = <T,>(set: Set<T>, value: T): Set<T> => {
+    const next = new Set(set)
+    if (next.has(value)) {
+      next.delete(value)
+    } else {
+      next.add(value)
+    }
+    return next
+  }
+
+  const importTrackedIssues = (imported: TrackedIssue[], mode: "merge" | "replace") => {
+    setTrackedIssues((prev) => (mode === "replace" ? imported : mergeImported(prev, imported)))
+  }
+
+  // Only this browser is cleared. Without a sync baseline the emptied lists are not sent as deletions;
+  // the next sync starts over and loads whatever the tracking server shares.
   const clearAllData = () => {
-    if (confirm("Are you sure you want to clear all tracked issues? This action cannot be undone.")) {
+    if (
+      confirm(
+        "Clear all tracked issues and settings stored in this browser? This cannot be undone. Issues and periods shared through the tracking server are kept and load again on the next sync. Export a JSON backup first if you may need local-only issues again.",
+      )
+    ) {
+      serverSnapshot.current = null
+      periodSnapshot.current = null
       setTrackedIssues([])
+      setQuarantined([])
+      clearStoredRecords().catch((error) => console.error("Failed to clear browser storage:", error))
       localStorage.removeItem("trackedIssues")
-      localStorage.removeItem("selectedMonth")
+      localStorage.removeItem("selectedPeriod")
+      localStorage.removeItem("trackingPeriods")
+      localStorage.removeItem("syncedTrackingKeys")
+      localStorage.removeItem("syncedPeriodIds")
       localStorage.removeItem("repoOwner")
       localStorage.removeItem("repoName")
-      setSelectedMonth(getCurrentMonthYear())
+      localStorage.removeItem("githubToken")
+      localStorage.removeItem("rememberGithubToken")
+      sessionStorage.removeItem("githubToken")
+      localStorage.removeItem("savedRepos")
+      localStorage.removeItem("savedSearches")
+      localStorage.removeItem("agingRules")
+      setSavedRepos([])
+      setSavedSearches({})
+      setToken("")
+      setRememberToken(false)
+      setPeriodDefinitions([])
+      setSelectedPeriod(getCurrentMonthYear())
     }
   }
 
-  const getStatusBadge = (status: TrackedIssue["status"]) => {
-    switch (status) {
-      case "EMPTY":
-        return "bg-gray-100 text-gray-800 border-gray-200"
-      case "IN_PROGRESS":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200"
+  const getPullRequestBadge = (state: PullRequestState) => {
+    switch (state) {
       case "MERGED":
+        return "bg-purple-100 text-purple-800 border-purple-200"
+      case "OPEN":
         return "bg-green-100 text-green-800 border-green-200"
       default:
         return "bg-gray-100 text-gray-800 border-gray-200"
     }
   }
 
-  const filteredTrackedIssues = trackedIssues.filter((issue) => issue.monthYear === selectedMonth)
+  const scopedTrackedIssues =
+    trackingScope === "all" ? trackedIssues : trackedIssues.filter((issue) => issue.repoKey === activeRepoKey)
 
-  const monthlyStats = {
+  const periodRecords = scopedTrackedIssues
+    .filter((issue) => isListedInPeriod(issue, selectedPeriod))
+    .sort((a, b) => a.repoKey.localeCompare(b.repoKey) || a.number - b.number)
+  const filteredTrackedIssues = periodRecords.map((issue) => asListedInPeriod(issue, selectedPeriod))
+  const isCopy = (issue: TrackedIssue) => isCopyInPeriod(issue, selectedPeriod)
+  // GitHub actions would roll back to the snapshot on failure, so copies only offer their history
+  const rowPanels = (issue: TrackedIssue): ("history" | "github")[] =>
+    isCopy(issue) ? ["history"] : ["history", "github"]
+
+  const trackedByRepo = groupByRepo(filteredTrackedIssues)
+
+  // Rows kept in this period by an earlier copy carry-over have already moved on
+  const unfinishedThisPeriod = filteredTrackedIssues.filter(
+    (issue) => issue.period === selectedPeriod && isUnfinished(issue),
+  )
+
+  const attentionIssues = filteredTrackedIssues.filter((issue) => needsAttention(issue, agingRules))
+  const visibleTrackedIssues = attentionOnly ? attentionIssues : filteredTrackedIssues
+
+  // Selections only act on rows that are currently visible and editable
+  const selectableRows = visibleTrackedIssues.filter((issue) => !isCopy(issue))
+  const selectedRows = selectableRows.filter((issue) => selectedTracked.has(trackedIssueKey(issue)))
+  const allRowsSelected = selectableRows.length > 0 && selectedRows.length === selectableRows.length
+  const selectedIssueList = filtered.filter((issue) => selectedIssues.has(issue.number) && !isTracked(issue))
+  const selectableIssues = filtered.filter((issue) => !isTracked(issue))
+
+  const periodStats = {
     total: filteredTrackedIssues.length,
-    empty: filteredTrackedIssues.filter((issue) => issue.status === "EMPTY").length,
-    inProgress: filteredTrackedIssues.filter((issue) => issue.status === "IN_PROGRESS").length,
-    merged: filteredTrackedIssues.filter((issue) => issue.status === "MERGED").length,
+    byStatus: Object.fromEntries(
+      STATUS_WORKFLOW.map((definition) => [
+        definition.id,
+        filteredTrackedIssues.filter((issue) => issue.status === definition.id).length,
+      ]),
+    ) as Record<TrackedIssue["status"], number>,
   }
 
-  const availableMonths = getAvailableMonths(trackedIssues)
-  if (availableMonths.length === 0) {
-    availableMonths.push(getCurrentMonthYear())
-  }
+  // A linked period may have nothing tracked in it yet
+  const periods = availablePeriods(
+    [...scopedTrackedIssues.flatMap(listedPeriods), selectedPeriod],
+    periodDefinitions,
+  )
+  const selectedPeriodName = formatPeriod(selectedPeriod, periodDefinitions)
 
   if (!isInitialized) {
     return (
@@ -262,6 +886,12 @@ export default function Home() {
               <p className="text-muted-foreground text-lg">Track and manage GitHub repository issues with style</p>
             </div>
             <div className="flex items-center gap-4">
+              <Link
+                href="/contributors"
+                className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-primary transition-colors duration-200"
+              >
+                Contributors
+              </Link>
               <ThemeToggle />
               {trackedIssues.length > 0 && (
                 <button
@@ -272,7 +902,7 @@ export default function Home() {
                 </button>
               )}
               <button
-                onClick={fetchIssues}
+                onClick={() => fetchIssues({ fresh: true })}
                 disabled={loading}
                 className="px-6 py-3 bg-primary text-primary-foreground text-sm font-semibold rounded-xl hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
               >
@@ -281,6 +911,16 @@ export default function Home() {
             </div>
           </div>
 
+          {quarantined.length > 0 && (
+            <StorageRecoveryBanner
+              records={quarantined}
+              onDiscard={() => {
+                clearQuarantine().catch((error) => console.error("Failed to discard quarantined records:", error))
+                setQuarantined([])
+              }}
+            />
+          )}
+
           <div className="flex items-center gap-2 mb-8 p-1 bg-muted rounded-xl">
             <button
               onClick={() => setActiveTab("issues")}
@@ -322,6 +962,21 @@ export default function Home() {
                 Tracking ({trackedIssues.length})
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab("analytics")}
+              className={`flex-1 px-6 py-3 text-sm font-semibold rounded-lg transition-all duration-200 ${
+                activeTab === "analytics"
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+                Analytics
+              </div>
+            </button>
           </div>
 
           {activeTab === "issues" && (
@@ -341,7 +996,137 @@ export default function Home() {
                 </button>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {savedRepos.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground mr-1">Saved repositories:</span>
+                  {savedRepos.map((fullName) => {
+                    const isActive = fullName.toLowerCase() === activeRepoKey
+                    return (
+                      <div
+                        key={fullName}
+                        className={`flex items-center rounded-full border text-sm font-medium transition-colors duration-200 ${
+                          isActive
+                            ? "bg-primary/10 border-primary/30 text-primary"
+                            : "bg-card border-border text-foreground hover:border-primary/50"
+                        }`}
+                      >
+                        <button onClick={() => switchRepo(fullName)} disabled={loading} className="pl-4 pr-2 py-1.5">
+                          {fullName}
+                        </button>
+                        <button
+                          onClick={() => forgetRepo(fullName)}
+                          className="pr-3 pl-1 py-1.5 text-muted-foreground hover:text-red-600"
+                          aria-label={`Forget ${fullName}`}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              <div className="flex items-center gap-4">
+                <input
+                  type="password"
+                  autoComplete="off"
+                  className="flex-1 px-5 py-4 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  placeholder="GitHub token (optional, for private repos and higher rate limits)"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+                <label
+                  className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap"
+                  title="Without this the token is forgotten when the tab closes"
+                >
+                  <input
+                    type="checkbox"
+                    checked={rememberToken}
+                    onChange={(e) => setRememberToken(e.target.checked)}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  Remember on this device
+                </label>
+                {rateLimit && (
+                  <div
+                    className={`px-4 py-2 rounded-full text-sm font-semibold whitespace-nowrap ${
+                      rateLimit.remaining === 0
+                        ? "bg-red-100 text-red-800"
+                        : rateLimit.remaining < rateLimit.limit * 0.1
+                          ? "bg-yellow-100 text-yellow-800"
+                          : "bg-muted text-muted-foreground"
+                    }`}
+                    title={`Resets at ${formatResetTime(rateLimit)}`}
+                  >
+                    API {rateLimit.remaining}/{rateLimit.limit} · resets {formatResetTime(rateLimit)}
+                  </div>
+                )}
+              </div>
+
+              {rememberToken && (
+                <p role="status" className="p-4 border-2 border-amber-500/40 bg-amber-500/10 rounded-xl text-sm text-muted-foreground">
+                  The token is saved unencrypted in this browser&apos;s storage, where any script running on this page
+                  can read it. Only remember it on a device you trust, and prefer a fine-grained token limited to the
+                  repositories you need.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <select
+                  value={filters.state}
+                  onChange={(e) => updateFilter("state", e.target.value as IssueFilters["state"])}
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                >
+                  <option value="all">All states</option>
+                  <option value="open">Open</option>
+                  <option value="closed">Closed</option>
+                </select>
+                <input
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  placeholder="Labels (comma separated)"
+                  value={filters.labels}
+                  onChange={(e) => updateFilter("labels", e.target.value)}
+                />
+                <input
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  placeholder="Assignee, none or *"
+                  value={filters.assignee}
+                  onChange={(e) => updateFilter("assignee", e.target.value)}
+                />
+                <input
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  placeholder="Milestone number, none or *"
+                  value={filters.milestone}
+                  onChange={(e) => updateFilter("milestone", e.target.value)}
+                />
+                <input
+                  type="date"
+                  title="Only issues updated since"
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  value={filters.since ? filters.since.slice(0, 10) : ""}
+                  onChange={(e) => updateFilter("since", e.target.value ? new Date(e.target.value).toISOString() : "")}
+                />
+                <select
+                  value={`${filters.sort}-${filters.direction}`}
+                  onChange={(e) => {
+                    const [sort, direction] = e.target.value.split("-")
+                    setFilters((prev) => ({
+                      ...prev,
+                      sort: sort as IssueFilters["sort"],
+                      direction: direction as IssueFilters["direction"],
+                    }))
+                  }}
+                  className="px-4 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                >
+                  <option value="created-desc">Newest</option>
+                  <option value="created-asc">Oldest</option>
+                  <option value="updated-desc">Recently updated</option>
+                  <option value="updated-asc">Least recently updated</option>
+                  <option value="comments-desc">Most commented</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <input
                   className="px-5 py-4 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
                   placeholder="Owner"
@@ -354,119 +1139,389 @@ export default function Home() {
                   value={repo}
                   onChange={(e) => setRepo(e.target.value)}
                 />
-                <input
-                  className="px-5 py-4 border-2 border-border bg-card rounded-xl text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
-                  placeholder="Search issues..."
-                  value={q}
-                  onChange={(e) => setQ(e.target.value)}
-                />
-                <select
-                  value={selectedMonth}
-                  onChange={(e) => setSelectedMonth(e.target.value)}
+                <PeriodSelect
+                  value={selectedPeriod}
+                  periods={periods}
+                  definitions={periodDefinitions}
+                  onChange={setSelectedPeriod}
+                  ariaLabel="Period to track issues in"
+                  prefix="Track for "
                   className="px-5 py-4 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
-                >
-                  {availableMonths.map((month) => (
-                    <option key={month} value={month}>
-                      Track for {formatMonthYear(month)}
-                    </option>
-                  ))}
-                </select>
+                />
               </div>
+
+              <IssueSearch
+                value={q}
+                onChange={setQ}
+                errors={query.errors}
+                labels={knownLabels(issues)}
+                assignees={knownAssignees(issues)}
+                savedSearches={repoSearches}
+                onSaveSearch={saveSearch}
+                onDeleteSearch={deleteSearch}
+              />
             </div>
           )}
 
+          {activeTab === "analytics" && (
+            <AnalyticsView
+              issues={scopedTrackedIssues}
+              periods={periods}
+              definitions={periodDefinitions}
+              initialKind={periodKind(selectedPeriod) ?? "month"}
+            />
+          )}
+
           {activeTab === "tracking" && (
             <div className="space-y-6">
               <div className="flex items-center justify-between mb-6">
-                <select
-                  value={selectedMonth}
-                  onChange={(e) => setSelectedMonth(e.target.value)}
-                  className="px-5 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
-                >
-                  {availableMonths.map((month) => (
-                    <option key={month} value={month}>
-                      {formatMonthYear(month)}
-                    </option>
-                  ))}
-                </select>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={trackingScope}
+                    onChange={(e) => setTrackingScope(e.target.value as "current" | "all")}
+                    className="px-5 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  >
+                    <option value="current">{activeRepoKey === "/" ? "Current repository" : activeRepoKey}</option>
+                    <option value="all">All repositories</option>
+                  </select>
+                  <PeriodSelect
+                    value={selectedPeriod}
+                    periods={periods}
+                    definitions={periodDefinitions}
+                    onChange={setSelectedPeriod}
+                    ariaLabel="Tracking period"
+                    className="px-5 py-3 border-2 border-border bg-card rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-200"
+                  />
+                  <div className="flex items-center p-1 bg-muted rounded-xl">
+                    {(["table", "board"] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setTrackingView(view)}
+                        className={`px-4 py-2 text-sm font-semibold rounded-lg capitalize transition-all duration-200 ${
+                          trackingView === view
+                            ? "bg-background text-foreground shadow-sm"
+                            : "text-muted-foreground hover:text-foreground"
+                        }`}
+                      >
+                        {view}
+                      </button>
+                    ))}
+                  </div>
+                </div>
 
                 <div className="flex items-center gap-4">
                   <div className="px-4 py-2 bg-accent text-accent-foreground rounded-full text-sm font-semibold">
-                    {monthlyStats.total} Total
-                  </div>
-                  <div className="px-4 py-2 bg-gray-100 text-gray-800 rounded-full text-sm font-semibold">
-                    {monthlyStats.empty} Empty
-                  </div>
-                  <div className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-full text-sm font-semibold">
-                    {monthlyStats.inProgress} In Progress
+                    {periodStats.total} Total
                   </div>
-                  <div className="px-4 py-2 bg-green-100 text-green-800 rounded-full text-sm font-semibold">
-                    {monthlyStats.merged} Merged
-                  </div>
-                  {trackedIssues.length > 0 && (
-                    <div className="px-3 py-1 bg-muted text-muted-foreground rounded-full text-xs font-medium">
-                      Auto-saved
+                  {STATUS_WORKFLOW.filter(
+                    (definition) => definition.auto || periodStats.byStatus[definition.id] > 0,
+                  ).map((definition) => (
+                    <div
+                      key={definition.id}
+                      className={`px-4 py-2 rounded-full text-sm font-semibold ${definition.pillClass}`}
+                    >
+                      {periodStats.byStatus[definition.id]} {definition.label}
                     </div>
-                  )}
+                  ))}
+                  <div
+                    className="px-3 py-1 bg-muted text-muted-foreground rounded-full text-xs font-medium"
+                    title={
+                      syncStatus === "offline"
+                        ? "The tracking server is unreachable; changes are kept in this browser and uploaded once it is back"
+                        : "Shared with everyone using this dashboard"
+                    }
+                  >
+                    {syncStatus === "synced" ? "Synced" : syncStatus === "syncing" ? "Syncing..." : "Saved locally"}
+                  </div>
                 </div>
               </div>
 
+              <PeriodsPanel
+                definitions={periodDefinitions}
+                onChange={setPeriodDefinitions}
+                repoKey={activeRepoKey}
+                token={token}
+              />
+
+              {unfinishedThisPeriod.length > 0 && (
+                <CarryOverPanel
+                  period={selectedPeriod}
+                  definitions={periodDefinitions}
+                  unfinishedCount={unfinishedThisPeriod.length}
+                  onCarryOver={carryOverUnfinished}
+                />
+              )}
+
+              <div className="flex flex-wrap items-center gap-4 bg-card border-2 border-border rounded-2xl p-4">
+                <button
+                  onClick={() => setAttentionOnly((only) => !only)}
+                  aria-pressed={attentionOnly}
+                  className={`px-4 py-2 rounded-lg text-sm font-semibold border-2 transition-all duration-200 ${
+                    attentionOnly
+                      ? "bg-red-100 text-red-800 border-red-200"
+                      : "bg-card text-foreground border-border hover:border-primary/50"
+                  }`}
+                >
+                  Needs attention ({attentionIssues.length})
+                </button>
+                <AgingRulesPanel rules={agingRules} onChange={setAgingRules} />
+              </div>
+
+              <DataTransferPanel
+                allIssues={trackedIssues}
+                periodIssues={filteredTrackedIssues}
+                periodRecords={periodRecords}
+                selectedPeriod={selectedPeriod}
+                periodName={selectedPeriodName}
+                onImport={importTrackedIssues}
+              />
+
               {filteredTrackedIssues.length > 0 ? (
                 <div className="bg-card border-2 border-border rounded-2xl overflow-hidden">
                   <div className="px-6 py-4 bg-muted border-b border-border">
                     <h2 className="text-lg font-semibold text-foreground">
-                      {formatMonthYear(selectedMonth)} Issue Tracking
+                      {selectedPeriodName} Issue Tracking
                     </h2>
-                    <p className="text-sm text-muted-foreground">Track contributor progress and issue status</p>
+                    <p className="text-sm text-muted-foreground">
+                      {periodKind(selectedPeriod) === "month"
+                        ? "Track contributor progress and issue status"
+                        : formatPeriodDates(selectedPeriod, periodDefinitions) || "This period has been deleted"}
+                    </p>
+                    {attentionOnly && attentionIssues.length === 0 && (
+                      <p className="text-sm font-medium text-green-700 mt-2">Nothing needs attention in this period</p>
+                    )}
+                    {trackingScope === "all" && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {Object.entries(trackedByRepo).map(([repoKey, repoIssues]) => (
+                          <span
+                            key={repoKey}
+                            className="px-3 py-1 bg-background border border-border rounded-full text-xs font-medium text-foreground"
+                          >
+                            {repoKey}: {repoIssues.length} tracked,{" "}
+                            {repoIssues.filter((issue) => issue.status === "MERGED").length} merged
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
-                  <div className="overflow-x-auto">
-                    <table className="w-full">
-                      <thead className="bg-muted/50">
-                        <tr>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">#</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Issue Link</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Contributor</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Status</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Actions</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {filteredTrackedIssues.map((issue, index) => (
-                          <tr key={issue.number} className={index % 2 === 0 ? "bg-background" : "bg-muted/20"}>
-                            <td className="px-6 py-4 text-sm font-mono text-foreground">#{issue.number}</td>
-                            <td className="px-6 py-4">
-                              <a
-                                href={issue.html_url}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="text-primary hover:text-primary/80 text-sm font-medium transition-colors duration-200 max-w-md truncate block"
-                                title={issue.title}
-                              >
-                                {issue.title}
-                              </a>
-                            </td>
-                            <td className="px-6 py-4 text-sm text-foreground">
-                              {issue.assignee ? issue.assignee.login : "Unassigned"}
-                            </td>
-                            <td className="px-6 py-4">
-                              <span className={`px-3 py-1.5 text-xs font-semibold rounded-lg border inline-block transition-all duration-200 ${getStatusBadge(issue.status)}`}>
-                                {issue.status}
-                              </span>
-                            </td>
-                            <td className="px-6 py-4">
-                              <button
-                                onClick={() => removeFromTracking(issue.number)}
-                                className="text-red-600 hover:text-red-800 text-sm font-medium transition-colors duration-200"
-                              >
-                                Remove
-                              </button>
-                            </td>
+                  {trackingView === "board" ? (
+                    <div className="p-4">
+                      <TrackingBoard
+                        issues={visibleTrackedIssues}
+                        period={selectedPeriod}
+                        periodDefinitions={periodDefinitions}
+                        showRepo={trackingScope === "all"}
+                        agingRules={agingRules}
+                        onStatusChange={(issue, status) => updateIssueStatus([issue], status)}
+                      />
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      {selectedRows.length > 0 && (
+                        <div className="p-4">
+                          <TrackingBulkActions
+                            count={selectedRows.length}
+                            currentPeriod={selectedPeriod}
+                            periods={periods}
+                            periodDefinitions={periodDefinitions}
+                            onMove={bulkMove}
+                            onStatusChange={bulkSetStatus}
+                            onAssign={bulkAssign}
+                            onRemove={bulkRemove}
+                            onClear={() => setSelectedTracked(new Set())}
+                          />
+                        </div>
+                      )}
+                      <table className="w-full">
+                        <thead className="bg-muted/50">
+                          <tr>
+                            <th className="pl-6 py-4 w-4">
+                              <input
+                                type="checkbox"
+                                checked={allRowsSelected}
+                                onChange={(e) =>
+                                  setSelectedTracked(
+                                    e.target.checked ? new Set(selectableRows.map(trackedIssueKey)) : new Set(),
+                                  )
+                                }
+                                aria-label="Select all tracked issues"
+                                className="w-4 h-4 accent-primary"
+                              />
+                            </th>
+                            {trackingScope === "all" && (
+                              <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Repository</th>
+                            )}
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">#</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Issue Link</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Contributor</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">GitHub Assignee</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Status</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Notes</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Actions</th>
                           </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                        </thead>
+                        <tbody>
+                          {visibleTrackedIssues.map((issue, index) => (
+                            <Fragment key={trackedIssueKey(issue)}>
+                              <tr
+                                className={`${index % 2 === 0 ? "bg-background" : "bg-muted/20"} ${
+                                  isCopy(issue) ? "opacity-60" : ""
+                                }`}
+                              >
+                                <td className="pl-6 py-4">
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedTracked.has(trackedIssueKey(issue))}
+                                    disabled={isCopy(issue)}
+                                    onChange={() =>
+                                      setSelectedTracked((prev) => toggleSelection(prev, trackedIssueKey(issue)))
+                                    }
+                                    aria-label={`Select #${issue.number}`}
+                                    className="w-4 h-4 accent-primary"
+                                  />
+                                </td>
+                                {trackingScope === "all" && (
+                                  <td className="px-6 py-4 text-sm text-muted-foreground whitespace-nowrap">{issue.repoKey}</td>
+                                )}
+                                <td className="px-6 py-4 text-sm font-mono text-foreground">
+                                  <div className="flex items-center gap-2">
+                                    #{issue.number}
+                                    <RolloverBadge issue={issue} period={selectedPeriod} definitions={periodDefinitions} />
+                                    <AgingBadge alerts={agingAlerts(issue, agingRules)} />
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <a
+                                    href={issue.html_url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-primary hover:text-primary/80 text-sm font-medium transition-colors duration-200 max-w-md truncate block"
+                                    title={issue.title}
+                                  >
+                                    {issue.title}
+                                  </a>
+                                </td>
+                                <td className="px-6 py-4">
+                                  <EditableCell
+                                    value={issue.contributor ?? ""}
+                                    placeholder="Add contributor"
+                                    ariaLabel={`Contributor for #${issue.number}`}
+                                    readOnly={isCopy(issue)}
+                                    onSave={(contributor) => updateTrackedIssues([issue], { contributor })}
+                                  />
+                                </td>
+                                <td className="px-6 py-4 text-sm text-muted-foreground">
+                                  {issue.assignee ? issue.assignee.login : "Unassigned"}
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="flex items-center gap-2">
+                                    <select
+                                      value={issue.status}
+                                      onChange={(e) => updateIssueStatus([issue], e.target.value as TrackedIssue["status"])}
+                                      aria-label={`Status for #${issue.number}`}
+                                      disabled={isCopy(issue)}
+                                      title={
+                                        isCopy(issue) ? "As it was when carried over; edit it in its current period" : undefined
+                                      }
+                                      className={`px-3 py-1.5 text-xs font-semibold rounded-lg border cursor-pointer disabled:cursor-default focus:outline-none focus:ring-2 focus:ring-primary transition-all duration-200 ${getStatusDefinition(issue.status).badgeClass}`}
+                                    >
+                                      {STATUS_WORKFLOW.map((definition) => (
+                                        <option key={definition.id} value={definition.id}>
+                                          {definition.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                    {issue.statusLocked && !isCopy(issue) && (
+                                      <button
+                                        onClick={() => unlockIssueStatus(issue)}
+                                        className="px-2 py-1 text-xs font-medium text-muted-foreground hover:text-foreground border border-border rounded-md transition-colors duration-200"
+                                        title="Status was set manually and is kept on refresh. Click to let it sync from GitHub again."
+                                      >
+                                        Manual
+                                      </button>
+                                    )}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4 max-w-xs">
+                                  <EditableCell
+                                    multiline
+                                    value={issue.notes ?? ""}
+                                    placeholder="Add note"
+                                    ariaLabel={`Notes for #${issue.number}`}
+                                    readOnly={isCopy(issue)}
+                                    onSave={(notes) => updateTrackedIssues([issue], { notes })}
+                                  />
+                                </td>
+                                <td className="px-6 py-4">
+                                  <div className="flex items-center gap-3">
+                                    {!isCopy(issue) && (
+                                      <PeriodSelect
+                                        value={issue.period}
+                                        periods={periods}
+                                        definitions={periodDefinitions}
+                                        onChange={(period) => moveToPeriod([issue], period)}
+                                        ariaLabel={`Period for #${issue.number}`}
+                                        className="px-2 py-1 border border-border bg-card rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                                      />
+                                    )}
+                                    <button
+                                      onClick={() => setDetailIssue({ repoKey: issue.repoKey, number: issue.number })}
+                                      className="text-muted-foreground hover:text-foreground text-sm font-medium transition-colors duration-200"
+                                    >
+                                      Details
+                                    </button>
+                                    {rowPanels(issue).map((panel) => (
+                                      <button
+                                        key={panel}
+                                        onClick={() => toggleRowPanel(trackedIssueKey(issue), panel)}
+                                        aria-expanded={
+                                          expandedRow?.key === trackedIssueKey(issue) && expandedRow.panel === panel
+                                        }
+                                        className="text-muted-foreground hover:text-foreground text-sm font-medium transition-colors duration-200"
+                                      >
+                                        {panel === "history" ? "History" : "GitHub"}
+                                      </button>
+                                    ))}
+                                    {!isCopy(issue) && (
+                                      <button
+                                        onClick={() => {
+                                          removeFromTracking([issue])
+                                          offerUndo(`Removed #${issue.number}`, [issue])
+                                        }}
+                                        className="text-red-600 hover:text-red-800 text-sm font-medium transition-colors duration-200"
+                                      >
+                                        Remove
+                                      </button>
+                                    )}
+                                  </div>
+                                </td>
+                              </tr>
+                              {expandedRow?.key === trackedIssueKey(issue) && (
+                                <tr className="bg-muted/40">
+                                  <td colSpan={trackingScope === "all" ? 9 : 8} className="px-6 py-4">
+                                    {expandedRow.panel === "history" ? (
+                                      <HistoryTimeline issue={issue} definitions={periodDefinitions} />
+                                    ) : (
+                                      <IssueActionsPanel
+                                        issue={issue}
+                                        labels={knownLabels(issues)}
+                                        suggestedAssignee={
+                                          issue.contributor && isGithubLogin(issue.contributor) ? issue.contributor : ""
+                                        }
+                                        canWrite={canWriteToGithub}
+                                        onAction={(action) => runIssueAction(issue.repoKey, issue, action)}
+                                      />
+                                    )}
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-20">
@@ -481,10 +1536,10 @@ export default function Home() {
                     </svg>
                   </div>
                   <p className="text-foreground font-semibold text-lg mb-2">
-                    No Issues Tracked for {formatMonthYear(selectedMonth)}
+                    No Issues Tracked for {selectedPeriodName}
                   </p>
                   <p className="text-muted-foreground mb-4">
-                    Start tracking issues by selecting this month and clicking "Track" on any issue in the Issues tab
+                    Start tracking issues by selecting this period and clicking "Track" on any issue in the Issues tab
                   </p>
                   <button
                     onClick={() => setActiveTab("issues")}
@@ -502,15 +1557,43 @@ export default function Home() {
           <div className="space-y-4">
             {filtered.length > 0 && (
               <div className="flex items-center gap-3 mb-8">
+                <label className="flex items-center gap-2 px-3 text-sm font-medium text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectableIssues.length > 0 && selectedIssueList.length === selectableIssues.length}
+                    disabled={selectableIssues.length === 0}
+                    onChange={(e) =>
+                      setSelectedIssues(
+                        e.target.checked ? new Set(selectableIssues.map((issue) => issue.number)) : new Set(),
+                      )
+                    }
+                    className="w-4 h-4 accent-primary"
+                  />
+                  Select all
+                </label>
                 <div className="px-4 py-2 bg-accent text-accent-foreground rounded-full text-sm font-semibold">
                   {filtered.length} issue{filtered.length !== 1 ? "s" : ""} found
                 </div>
                 <div className="px-4 py-2 bg-primary/10 text-primary rounded-full text-sm font-semibold">
-                  Adding to {formatMonthYear(selectedMonth)}
+                  Adding to {selectedPeriodName}
                 </div>
               </div>
             )}
 
+            {selectedIssueList.length > 0 && (
+              <IssueBulkActions
+                count={selectedIssueList.length}
+                defaultPeriod={selectedPeriod}
+                periods={periods}
+                periodDefinitions={periodDefinitions}
+                onTrack={(period) => {
+                  trackIssues(selectedIssueList, period)
+                  setSelectedIssues(new Set())
+                }}
+                onClear={() => setSelectedIssues(new Set())}
+              />
+            )}
+
             {filtered.map((issue) => (
               <div
                 key={issue.number}
@@ -519,6 +1602,14 @@ export default function Home() {
                 <div className="flex items-start justify-between mb-6">
                   <div className="flex-1">
                     <div className="flex items-center gap-4 mb-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIssues.has(issue.number) && !isTracked(issue)}
+                        disabled={isTracked(issue)}
+                        onChange={() => setSelectedIssues((prev) => toggleSelection(prev, issue.number))}
+                        aria-label={`Select #${issue.number}`}
+                        className="w-4 h-4 accent-primary disabled:opacity-40"
+                      />
                       <span className="px-3 py-1 bg-primary/10 text-primary font-mono text-sm font-semibold rounded-lg border border-primary/20">
                         #{issue.number}
                       </span>
@@ -545,16 +1636,60 @@ export default function Home() {
                         ))}
                       </div>
                     )}
+
+                    {issue.linkedPullRequests && issue.linkedPullRequests.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {issue.linkedPullRequests.map((pr) => (
+                          <a
+                            key={pr.url}
+                            href={pr.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            title={`${pr.title}${pr.author ? ` by ${pr.author}` : ""}`}
+                            className={`px-3 py-1 rounded-lg border text-xs font-semibold transition-colors duration-200 ${getPullRequestBadge(pr.state)}`}
+                          >
+                            PR #{pr.number} · {pr.state}
+                            {pr.closesIssue && " · closes"}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setDetailIssue({ repoKey: activeRepoKey, number: issue.number })}
+                      className="px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200"
+                    >
+                      Details
+                    </button>
+                    <button
+                      onClick={() => setOpenIssueActions((open) => (open === issue.number ? null : issue.number))}
+                      aria-expanded={openIssueActions === issue.number}
+                      className="px-4 py-2 bg-card border-2 border-border text-foreground text-sm font-semibold rounded-lg hover:border-primary/50 transition-all duration-200"
+                    >
+                      GitHub
+                    </button>
+                    <button
+                      onClick={() => addToTracking(issue)}
+                      disabled={isTracked(issue)}
+                      className="px-4 py-2 bg-primary text-primary-foreground text-sm font-semibold rounded-lg hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isTracked(issue) ? "Tracked" : "Track"}
+                    </button>
                   </div>
-                  <button
-                    onClick={() => addToTracking(issue)}
-                    disabled={trackedIssues.some((t) => t.number === issue.number)}
-                    className="px-4 py-2 bg-primary text-primary-foreground text-sm font-semibold rounded-lg hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {trackedIssues.some((t) => t.number === issue.number) ? "Tracked" : "Track"}
-                  </button>
                 </div>
 
+                {openIssueActions === issue.number && (
+                  <div className="mb-6 p-4 bg-muted/40 border border-border rounded-xl">
+                    <IssueActionsPanel
+                      issue={issue}
+                      labels={knownLabels(issues)}
+                      canWrite={canWriteToGithub}
+                      onAction={(action) => runIssueAction(activeRepoKey, issue, action)}
+                    />
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-8">
                     <div className="flex items-center gap-2">
@@ -614,7 +1749,37 @@ export default function Home() {
               </div>
             ))}
 
-            {filtered.length === 0 && !loading && (
+            {nextPage !== null && !loading && (
+              <div className="flex justify-center pt-4">
+                <button
+                  onClick={() => fetchIssues({ page: nextPage, target: loadedRepo ?? undefined })}
+                  disabled={loadingMore}
+                  className="px-6 py-3 bg-secondary text-secondary-foreground text-sm font-semibold rounded-xl hover:bg-secondary/90 transition-all duration-200 disabled:opacity-50 shadow-md hover:shadow-lg"
+                >
+                  {loadingMore ? "Loading..." : "Load more"}
+                </button>
+              </div>
+            )}
+
+            {fetchError && !loading && (
+              <ErrorBanner
+                error={fetchError}
+                onRetry={fetchError.code === "invalid_request" ? undefined : retryFetch}
+                retrying={loadingMore}
+              />
+            )}
+
+            {fetchWarnings.length > 0 && !fetchError && (
+              <div role="status" className="p-4 border-2 border-amber-500/40 bg-amber-500/10 rounded-xl">
+                {fetchWarnings.map((warning) => (
+                  <p key={warning} className="text-sm text-muted-foreground">
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {filtered.length === 0 && !loading && !fetchError && (
               <div className="text-center py-20">
                 <div className="text-muted-foreground mb-4">
                   <div className="w-16 h-16 mx-auto mb-6 bg-primary/10 rounded-2xl flex items-center justify-center">
@@ -637,6 +1802,25 @@ export default function Home() {
           </div>
         )}
       </div>
+
+      {undoAction && (
+        <UndoToast
+          key={undoAction.id}
+          message={undoAction.message}
+          onUndo={undoLastAction}
+          onDismiss={() => setUndoAction(null)}
+        />
+      )}
+
+      {detailIssue && (
+        <IssueDetailDrawer
+          key={trackedIssueKey(detailIssue)}
+          repoKey={detailIssue.repoKey}
+          number={detailIssue.number}
+          token={token}
+          onClose={() => setDetailIssue(null)}
+        />
+      )}
     </main>
   )
 }
@@ -1,10 +1,53 @@
-export type ContributorStatus = "EMPTY" | "IN_PROGRESS" | "MERGED"
+import type { Issue } from "@/app/types/github"
 
-export type TrackedIssue = {
-  issueNumber: number
-  contributor: string
+export type ContributorStatus = "EMPTY" | "IN_PROGRESS" | "IN_REVIEW" | "BLOCKED" | "MERGED" | "CLOSED_WONTFIX"
+
+// Fields whose changes are recorded in a tracked issue's history
+export type HistoryField = "status" | "assignee" | "contributor" | "notes" | "period"
+
+// "auto" changes come from syncing with GitHub, "manual" ones from someone editing the row
+export type HistorySource = "auto" | "manual"
+
+export type HistoryEntry = {
+  field: HistoryField
+  // null when the field was empty; `from` is also null for the entry recorded when tracking starts
+  from: string | null
+  to: string | null
+  at: string
+  source: HistorySource
+}
+
+// One carry-over of unfinished work into a later tracking period
+// Fields frozen in the earlier period when an issue is copied to the next one
+export type RolloverSnapshot = Pick<TrackedIssue, "status" | "contributor" | "notes" | "assignee" | "labels" | "state">
+
+export type Rollover = {
+  from: string
+  to: string
+  at: string
+  // "copy" keeps the issue listed under `from` as well; "move" takes it out of that period
+  mode: "move" | "copy"
+  // For copies: how the issue stood when it was copied, which is what `from` keeps showing
+  snapshot?: RolloverSnapshot
+}
+
+export type TrackedIssue = Issue & {
+  // "owner/repo", lower-cased; issue numbers are only unique within a repo
+  repoKey: string
   status: ContributorStatus
+  // Set when a user picks the status by hand; auto-sync leaves locked statuses alone
+  statusLocked?: boolean
+  dateAdded: string
+  // When the issue first reached MERGED while tracked; used for time-to-merge metrics
+  mergedAt?: string
+  // Tracking period key, e.g. "2026-10" or "sprint:<id>:3"; see utils/periods
+  period: string
+  contributor?: string
   notes?: string
+  // Oldest first
+  history?: HistoryEntry[]
+  // Oldest first; issues carried over more than once are flagged in the tracking views
+  rollovers?: Rollover[]
 }
 
 export type ContributorData = {
@@ -0,0 +1,39 @@
+// "week" covers the seven days up to the digest's end; "month" a calendar month
+export type DigestPeriod = "week" | "month"
+
+// Markdown for people, the chat formats for incoming webhooks
+export type DigestFormat = "markdown" | "slack" | "discord"
+
+export type DigestItem = {
+  number: number
+  title: string
+  url: string
+  contributor: string | null
+  // Why the issue is listed, e.g. "No activity for 20 days"
+  detail?: string
+}
+
+export type Digest = {
+  repoKey: string
+  period: DigestPeriod
+  // ISO timestamps bounding the period; `to` is exclusive
+  from: string
+  to: string
+  merged: DigestItem[]
+  started: DigestItem[]
+  stale: DigestItem[]
+  unassigned: DigestItem[]
+}
+
+export type DigestResponse = {
+  digest: Digest
+  markdown: string
+}
+
+export type DigestDeliveryResponse = {
+  delivered: boolean
+  format: DigestFormat
+  // Status the webhook answered with
+  status: number
+  digest: Digest
+}
@@ -0,0 +1,158 @@
+export type PullRequestState = "OPEN" | "CLOSED" | "MERGED"
+
+export type LinkedPullRequest = {
+  number: number
+  title: string
+  url: string
+  state: PullRequestState
+  author: string | null
+  // "owner/name"; linked PRs may live in a fork or another repository
+  repository: string
+  // True when GitHub will close the issue once this PR merges
+  closesIssue: boolean
+}
+
+export type Issue = {
+  number: number
+  title: string
+  html_url: string
+  labels: { name: string; color: string }[]
+  assignee: { login: string; avatar_url?: string } | null
+  comments: number
+  updated_at: string
+  state?: "open" | "closed"
+  linkedPullRequests?: LinkedPullRequest[]
+  // Derived: at least one linked pull request has been merged
+  merged?: boolean
+}
+
+export type RateLimit = {
+  limit: number
+  remaining: number
+  used: number
+  // Unix epoch seconds, as sent by GitHub in X-RateLimit-Reset
+  reset: number
+  resource: string
+}
+
+// How /api/issues satisfied the list request: from cache within the TTL, via a
+// 304 revalidation, a full download, or a full download forced by ?fresh=1
+export type CacheStatus = "HIT" | "REVALIDATED" | "MISS" | "BYPASS"
+
+export type IssueState = "open" | "closed" | "all"
+
+export type IssueSort = "created" | "updated" | "comments"
+
+// Server-side filters forwarded to GitHub's list-issues endpoint
+export type IssueFilters = {
+  state: IssueState
+  labels: string
+  assignee: string
+  milestone: string
+  since: string
+  sort: IssueSort
+  direction: "asc" | "desc"
+}
+
+export const DEFAULT_ISSUE_FILTERS: IssueFilters = {
+  state: "all",
+  labels: "",
+  assignee: "",
+  milestone: "",
+  since: "",
+  sort: "created",
+  direction: "desc",
+}
+
+export type IssuesResponse = {
+  repo: string
+  count: number
+  issues: Issue[]
+  page: number
+  // null once GitHub's Link header no longer advertises a next page
+  nextPage: number | null
+  rateLimit: RateLimit | null
+  authenticated: boolean
+  cache: CacheStatus
+  // Problems that left the issues usable but incomplete, e.g. linked pull requests that failed to load
+  warnings: string[]
+}
+
+// Lets the dashboard tell failures apart without parsing messages
+export type IssuesErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "network"
+  | "github_error"
+
+export type IssuesErrorResponse = {
+  error: string
+  code: IssuesErrorCode
+  rateLimit: RateLimit | null
+}
+
+// Returned by the write routes under /api/issues/:owner/:repo/:number after GitHub accepted the change
+export type IssueActionResponse = {
+  issue: Issue
+  rateLimit: RateLimit | null
+}
+
+export type ReactionContent = "+1" | "-1" | "laugh" | "hooray" | "confused" | "heart" | "rocket" | "eyes"
+
+// Count per emoji; reactions nobody used are left out
+export type Reactions = Partial<Record<ReactionContent, number>>
+
+export type GithubUser = { login: string; avatar_url?: string }
+
+export type IssueComment = {
+  id: number
+  author: GithubUser | null
+  // Rendered by GitHub; sanitized again in the browser before it is shown
+  bodyHtml: string
+  createdAt: string
+  url: string
+  reactions: Reactions
+}
+
+// Where a pull request's reviews stand; a reviewer's latest approval or change request wins over comments
+export type ReviewState = "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "NO_REVIEWS"
+
+export type ReviewedPullRequest = LinkedPullRequest & {
+  reviewState: ReviewState
+  reviewers: { login: string; state: ReviewState }[]
+}
+
+export type IssueDetail = {
+  issue: Issue
+  author: GithubUser | null
+  bodyHtml: string
+  createdAt: string
+  reactions: Reactions
+  comments: IssueComment[]
+  // GitHub holds more comments than the first page included here
+  moreComments: boolean
+  pullRequests: ReviewedPullRequest[]
+}
+
+export type IssueDetailResponse = {
+  detail: IssueDetail
+  rateLimit: RateLimit | null
+}
+
+// Fields of GitHub's milestone object that tracking periods use
+export type Milestone = {
+  id: number
+  number: number
+  title: string
+  state: "open" | "closed"
+  created_at: string
+  due_on: string | null
+}
+
+export type MilestonesResponse = {
+  milestones: Milestone[]
+  rateLimit: RateLimit | null
+}
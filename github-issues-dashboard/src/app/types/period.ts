@@ -0,0 +1,41 @@
+// Calendar months need no definition; every other kind of tracking period is set up by the user
+
+export type PeriodKind = "month" | "range" | "sprint" | "milestone"
+
+// A named stretch of time, e.g. "Hacktoberfest"; both dates are inclusive "2026-10-01" days
+export type DateRangeDefinition = {
+  kind: "range"
+  id: string
+  name: string
+  start: string
+  end: string
+}
+
+// Back-to-back sprints of `lengthDays` each, numbered from 1 starting on `start`
+export type SprintCadenceDefinition = {
+  kind: "sprint"
+  id: string
+  name: string
+  start: string
+  lengthDays: number
+}
+
+// A GitHub milestone; `id` is GitHub's milestone id, which is unique across repositories
+export type MilestoneDefinition = {
+  kind: "milestone"
+  id: string
+  repoKey: string
+  number: number
+  title: string
+  // Days; the milestone runs from when it was created until it is due
+  start: string
+  dueOn: string | null
+}
+
+export type PeriodDefinition = DateRangeDefinition | SprintCadenceDefinition | MilestoneDefinition
+
+export type PeriodBounds = {
+  start: string
+  // Inclusive; null for a milestone without a due date
+  end: string | null
+}
@@ -0,0 +1,24 @@
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+
+export type TrackingListResponse = {
+  count: number
+  issues: TrackedIssue[]
+}
+
+export type TrackingItemResponse = {
+  issue: TrackedIssue
+}
+
+export type TrackingErrorResponse = {
+  error: string
+  details?: string[]
+}
+
+export type PeriodListResponse = {
+  definitions: PeriodDefinition[]
+}
+
+export type PeriodItemResponse = {
+  definition: PeriodDefinition
+}
@@ -0,0 +1,60 @@
+import type { TrackedIssue } from "@/app/types/contributor"
+
+// The parts of GitHub webhook payloads the dashboard reads; GitHub sends many more fields
+
+export type WebhookUser = {
+  login: string
+  avatar_url?: string
+}
+
+export type WebhookRepository = {
+  // "owner/name"
+  full_name: string
+}
+
+export type WebhookIssue = {
+  number: number
+  title: string
+  html_url: string
+  labels: { name: string; color: string }[]
+  assignee: WebhookUser | null
+  comments: number
+  updated_at: string
+  state: "open" | "closed"
+}
+
+export type IssuesPayload = {
+  action: string
+  issue: WebhookIssue
+  repository: WebhookRepository
+}
+
+// Comments on pull requests arrive with the same shape
+export type IssueCommentPayload = IssuesPayload
+
+export type PullRequestPayload = {
+  action: string
+  pull_request: {
+    number: number
+    title: string
+    html_url: string
+    body: string | null
+    state: "open" | "closed"
+    merged: boolean
+    user: WebhookUser | null
+  }
+  repository: WebhookRepository
+}
+
+export type WebhookResponse = {
+  event: string
+  // False for events and actions the dashboard ignores
+  handled: boolean
+  // trackedIssueKeys of the tracked issues that changed
+  updated: string[]
+}
+
+// Message sent on /api/tracking/events whenever tracked issues change on the server
+export type TrackingEventPayload = {
+  issues: TrackedIssue[]
+}
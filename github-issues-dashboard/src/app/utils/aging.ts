@@ -0,0 +1,69 @@
+import { DEFAULT_AGING_RULES, type AgingRules } from "@/app/config/aging"
+import type { TrackedIssue } from "@/app/types/contributor"
+import { isUnfinished } from "@/app/utils/carry-over"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type AgingAlert = {
+  rule: keyof AgingRules
+  // Whole days since the rule's reference point
+  days: number
+  message: string
+}
+
+function daysSince(iso: string, now: number): number {
+  return Math.floor((now - new Date(iso).getTime()) / DAY_MS)
+}
+
+function latest(timestamps: (string | undefined)[]): string | undefined {
+  return timestamps.filter((at): at is string => Boolean(at)).sort().at(-1)
+}
+
+// GitHub's updated_at, or a later change picked up by auto-sync (e.g. a linked PR merging).
+// Manual edits in the dashboard don't count: they say nothing about the work itself.
+export function lastActivityAt(issue: TrackedIssue): string {
+  const synced = (issue.history ?? []).filter((entry) => entry.source === "auto").map((entry) => entry.at)
+  return latest([issue.updated_at, ...synced]) ?? issue.dateAdded
+}
+
+// When the current GitHub assignee was first seen; tracking start if it was already assigned then
+export function assignedSince(issue: TrackedIssue): string | null {
+  if (!issue.assignee) return null
+  const assigned = (issue.history ?? []).filter((entry) => entry.field === "assignee" && entry.to !== null)
+  return assigned.at(-1)?.at ?? issue.dateAdded
+}
+
+// Only unfinished work someone has picked up can go stale; unassigned EMPTY issues are just backlog
+export function agingAlerts(issue: TrackedIssue, rules: AgingRules, now = Date.now()): AgingAlert[] {
+  if (!isUnfinished(issue) || issue.status === "EMPTY") return []
+  const alerts: AgingAlert[] = []
+
+  const idle = daysSince(lastActivityAt(issue), now)
+  if (rules.inactiveDays > 0 && idle >= rules.inactiveDays) {
+    alerts.push({ rule: "inactiveDays", days: idle, message: `No activity for ${idle} days` })
+  }
+
+  const assigned = assignedSince(issue)
+  if (rules.noPullRequestDays > 0 && assigned && (issue.linkedPullRequests ?? []).length === 0) {
+    const waiting = daysSince(assigned, now)
+    if (waiting >= rules.noPullRequestDays) {
+      alerts.push({ rule: "noPullRequestDays", days: waiting, message: `Assigned ${waiting} days ago, no PR yet` })
+    }
+  }
+  return alerts
+}
+
+export function needsAttention(issue: TrackedIssue, rules: AgingRules, now = Date.now()): boolean {
+  return agingAlerts(issue, rules, now).length > 0
+}
+
+// Rules read back from localStorage or a request; anything missing or invalid falls back to `base`
+export function sanitizeAgingRules(value: unknown, base: AgingRules = DEFAULT_AGING_RULES): AgingRules {
+  const stored = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {}
+  const rules = { ...base }
+  for (const key of Object.keys(DEFAULT_AGING_RULES) as (keyof AgingRules)[]) {
+    const days = stored[key]
+    if (typeof days === "number" && Number.isInteger(days) && days >= 0) rules[key] = days
+  }
+  return rules
+}
@@ -0,0 +1,108 @@
+import type { ContributorStatus, TrackedIssue } from "@/app/types/contributor"
+import { firstEnteredAt } from "@/app/utils/history"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type PeriodSummary = {
+  tracked: number
+  merged: number
+  // 0..1, null when nothing was tracked
+  mergeRate: number | null
+  avgDaysToMerge: number | null
+  // From history: first work on the issue to merge, and first review to merge
+  avgCycleDays: number | null
+  avgReviewDays: number | null
+}
+
+export type PeriodTrend = PeriodSummary & {
+  period: string
+}
+
+export type ContributorThroughput = PeriodSummary & {
+  contributor: string
+  inProgress: number
+}
+
+// Our contributor wins over the GitHub assignee, matching what the tracking table shows
+export function contributorOf(issue: TrackedIssue): string {
+  return issue.contributor || issue.assignee?.login || "Unassigned"
+}
+
+// Issues merged before `mergedAt` was recorded fall back to GitHub's last update
+export function daysToMerge(issue: TrackedIssue): number | null {
+  if (issue.status !== "MERGED") return null
+  const end = Date.parse(issue.mergedAt ?? issue.updated_at)
+  const start = Date.parse(issue.dateAdded)
+  if (Number.isNaN(end) || Number.isNaN(start)) return null
+  return Math.max(0, (end - start) / DAY_MS)
+}
+
+function daysFromFirst(issue: TrackedIssue, statuses: ContributorStatus[]): number | null {
+  if (issue.status !== "MERGED") return null
+  const start = firstEnteredAt(issue, statuses)
+  const end = firstEnteredAt(issue, ["MERGED"])
+  if (start === null || end === null || end < start) return null
+  return (end - start) / DAY_MS
+}
+
+// Issues tracked before history was recorded have no cycle time
+export function cycleDays(issue: TrackedIssue): number | null {
+  return daysFromFirst(issue, ["IN_PROGRESS", "IN_REVIEW"])
+}
+
+export function reviewDays(issue: TrackedIssue): number | null {
+  return daysFromFirst(issue, ["IN_REVIEW"])
+}
+
+function known(values: (number | null)[]): number[] {
+  return values.filter((value): value is number => value !== null)
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+export function summarize(issues: TrackedIssue[]): PeriodSummary {
+  const merged = issues.filter((issue) => issue.status === "MERGED")
+  return {
+    tracked: issues.length,
+    merged: merged.length,
+    mergeRate: issues.length > 0 ? merged.length / issues.length : null,
+    avgDaysToMerge: average(known(merged.map(daysToMerge))),
+    avgCycleDays: average(known(merged.map(cycleDays))),
+    avgReviewDays: average(known(merged.map(reviewDays))),
+  }
+}
+
+// One entry per period in the order given; pass them oldest first so charts read left to right
+export function periodTrends(issues: TrackedIssue[], periods: string[]): PeriodTrend[] {
+  return periods.map((period) => ({
+    period,
+    ...summarize(issues.filter((issue) => issue.period === period)),
+  }))
+}
+
+export function contributorThroughput(issues: TrackedIssue[]): ContributorThroughput[] {
+  const byContributor = new Map<string, TrackedIssue[]>()
+  for (const issue of issues) {
+    const contributor = contributorOf(issue)
+    byContributor.set(contributor, [...(byContributor.get(contributor) ?? []), issue])
+  }
+
+  return Array.from(byContributor.entries())
+    .map(([contributor, contributed]) => ({
+      contributor,
+      inProgress: contributed.filter((issue) => issue.status === "IN_PROGRESS" || issue.status === "IN_REVIEW").length,
+      ...summarize(contributed),
+    }))
+    .sort((a, b) => b.merged - a.merged || b.tracked - a.tracked || a.contributor.localeCompare(b.contributor))
+}
+
+export function formatPercent(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`
+}
+
+export function formatDays(days: number | null): string {
+  if (days === null) return "—"
+  return days < 1 ? "< 1 day" : `${days.toFixed(1)} days`
+}
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export type CacheEntry = {
+  status: number
+  body: string
+  headers: Record<string, string>
+  etag: string | null
+  // Epoch milliseconds of the last time GitHub confirmed this body
+  storedAt: number
+}
+
+// Anything that can hold entries by key; swap in a KV-backed store for deployments
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string) {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    // Re-inserting moves the key to the end so the oldest entry is evicted first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+export class FileCacheStore implements CacheStore {
+  constructor(private dir: string) {}
+
+  private fileFor(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      return JSON.parse(await readFile(this.fileFor(key), "utf8")) as CacheEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.fileFor(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string) {
+    await rm(this.fileFor(key), { force: true });
+  }
+}
+
+let store: CacheStore | null = null;
+
+// GITHUB_CACHE_STORE picks the backend: "memory" (default), "file" or "none"
+export function getCacheStore(): CacheStore | null {
+  if (store) return store;
+
+  const kind = process.env.GITHUB_CACHE_STORE ?? "memory";
+  if (kind === "none") return null;
+  store = kind === "file"
+    ? new FileCacheStore(process.env.GITHUB_CACHE_DIR ?? path.join(process.cwd(), ".cache", "github"))
+    : new MemoryCacheStore();
+  return store;
+}
+
+export function setCacheStore(next: CacheStore | null) {
+  store = next;
+}
+
+export function getCacheTtlMs(): number {
+  const seconds = Number(process.env.GITHUB_CACHE_TTL ?? 60);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : 60_000;
+}
+
+// Responses differ per token (private repos, permissions), so the token is part of the key
+export function cacheKey(token: string | null, ...parts: string[]): string {
+  return createHash("sha256").update([token ?? "anonymous", ...parts].join("\n")).digest("hex");
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import type { TrackedIssue } from "@/app/types/contributor"
+import { asListedInPeriod, carryOver, isCopyInPeriod, liveRecordsFor } from "@/app/utils/carry-over"
+import { recordChanges } from "@/app/utils/history"
+import { mergeImported } from "@/app/utils/tracking-export"
+
+const tracked: TrackedIssue = {
+  repoKey: "acme/widgets",
+  number: 7,
+  title: "Flaky build",
+  html_url: "https://github.com/acme/widgets/issues/7",
+  labels: [{ name: "bug", color: "d73a4a" }],
+  assignee: { login: "jane" },
+  comments: 0,
+  updated_at: "2026-09-20T00:00:00Z",
+  state: "open",
+  status: "IN_PROGRESS",
+  dateAdded: "2026-09-01T00:00:00Z",
+  period: "2026-09",
+  contributor: "jane",
+  notes: "Started",
+}
+
+// Copied into October, then finished there; September keeps showing it in progress
+function copiedAndMerged(): TrackedIssue {
+  const copied = carryOver(tracked, "2026-10", "copy")
+  return recordChanges(copied, { ...copied, status: "MERGED", notes: "Done", labels: [] }, "manual")
+}
+
+test("a row kept in an earlier period by a copy is read-only there and editable in its current period", () => {
+  const live = copiedAndMerged()
+  assert.equal(isCopyInPeriod(asListedInPeriod(live, "2026-09"), "2026-09"), true)
+  assert.equal(isCopyInPeriod(asListedInPeriod(live, "2026-10"), "2026-10"), false)
+  assert.equal(isCopyInPeriod(tracked, "2026-09"), false)
+})
+
+test("undoing Remove on a copied row restores the live record, not the snapshot", () => {
+  const live = copiedAndMerged()
+  const records = [live]
+  const row = asListedInPeriod(live, "2026-09")
+  assert.equal(row.status, "IN_PROGRESS")
+
+  const previous = liveRecordsFor(records, [row])
+  const removed = records.filter((record) => record.number !== row.number)
+  const [restored] = mergeImported(removed, previous)
+  assert.deepEqual(restored, live)
+  assert.equal(restored.status, "MERGED")
+  assert.equal(restored.period, "2026-10")
+})
+
+test("undoing an edit made from a copied row's period leaves the live status, notes and labels alone", () => {
+  const live = copiedAndMerged()
+  const row = asListedInPeriod(live, "2026-09")
+  const previous = liveRecordsFor([live], [row])
+
+  const edited = recordChanges(live, { ...live, contributor: "sam" }, "manual")
+  const [undone] = mergeImported([edited], previous)
+  assert.equal(undone.contributor, "jane")
+  assert.equal(undone.status, "MERGED")
+  assert.equal(undone.notes, "Done")
+  assert.deepEqual(undone.labels, [])
+})
@@ -0,0 +1,107 @@
+import { STATUS_WORKFLOW, getStatusDefinition } from "@/app/config/statuses"
+import type { Rollover, RolloverSnapshot, TrackedIssue } from "@/app/types/contributor"
+import { isIssueLabel, isIssueUser, isSameTrackedIssue } from "@/app/utils/helpers"
+import { recordChanges } from "@/app/utils/history"
+
+// Carried over at least this many times and the issue is flagged as stuck
+export const REPEATED_ROLLOVER_THRESHOLD = 2
+
+export function isUnfinished(issue: TrackedIssue): boolean {
+  return !getStatusDefinition(issue.status).done
+}
+
+// An issue is listed under its current period, and under earlier periods it was copied out of
+export function isListedInPeriod(issue: TrackedIssue, period: string): boolean {
+  return (
+    issue.period === period ||
+    (issue.rollovers ?? []).some((rollover) => rollover.mode === "copy" && rollover.from === period)
+  )
+}
+
+// How the issue is shown in `period`. Under a period it was copied out of, it keeps the state it was copied in,
+// so earlier periods don't change as the issue progresses in the new one.
+export function asListedInPeriod(issue: TrackedIssue, period: string): TrackedIssue {
+  if (issue.period === period) return issue
+  const copy = [...(issue.rollovers ?? [])]
+    .reverse()
+    .find((rollover) => rollover.mode === "copy" && rollover.from === period)
+  return copy?.snapshot ? { ...issue, ...copy.snapshot } : issue
+}
+
+// Listed in `period` only through a copy, so shown with the snapshot; edits from there would land on the live
+// record without showing, so such rows are read-only
+export function isCopyInPeriod(issue: TrackedIssue, period: string): boolean {
+  return issue.period !== period && isListedInPeriod(issue, period)
+}
+
+// The stored records behind rows as listed in a period, for undo and export, which must not write a snapshot back
+export function liveRecordsFor(
+  records: TrackedIssue[],
+  rows: Pick<TrackedIssue, "repoKey" | "number">[],
+): TrackedIssue[] {
+  return records.filter((record) => rows.some((row) => isSameTrackedIssue(record, row)))
+}
+
+// Every period the issue is listed under, see isListedInPeriod
+export function listedPeriods(issue: TrackedIssue): string[] {
+  return [
+    issue.period,
+    ...(issue.rollovers ?? []).filter((rollover) => rollover.mode === "copy").map((rollover) => rollover.from),
+  ]
+}
+
+export function rolloverCount(issue: TrackedIssue): number {
+  return issue.rollovers?.length ?? 0
+}
+
+function snapshotOf(issue: TrackedIssue): RolloverSnapshot {
+  const { status, contributor, notes, assignee, labels, state } = issue
+  return { status, contributor, notes, assignee, labels, state }
+}
+
+export function carryOver(issue: TrackedIssue, to: string, mode: Rollover["mode"]): TrackedIssue {
+  const at = new Date().toISOString()
+  const rollover: Rollover = { from: issue.period, to, at, mode }
+  if (mode === "copy") rollover.snapshot = snapshotOf(issue)
+  return recordChanges(
+    issue,
+    { ...issue, period: to, rollovers: [...(issue.rollovers ?? []), rollover] },
+    "manual",
+    at,
+  )
+}
+
+function isSnapshot(value: unknown): value is RolloverSnapshot {
+  if (typeof value !== "object" || value === null) return false
+  const snapshot = value as Partial<RolloverSnapshot>
+  return (
+    STATUS_WORKFLOW.some((definition) => definition.id === snapshot.status) &&
+    Array.isArray(snapshot.labels) &&
+    snapshot.labels.every(isIssueLabel) &&
+    (snapshot.assignee === null || snapshot.assignee === undefined || isIssueUser(snapshot.assignee)) &&
+    (snapshot.contributor === undefined || typeof snapshot.contributor === "string") &&
+    (snapshot.notes === undefined || typeof snapshot.notes === "string") &&
+    (snapshot.state === undefined || snapshot.state === "open" || snapshot.state === "closed")
+  )
+}
+
+// Keeps only well-formed rollovers from imported or API-supplied records; a malformed snapshot is dropped,
+// leaving the copy to show the live issue as before snapshots existed
+export function sanitizeRollovers(value: unknown): Rollover[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  return value
+    .filter(
+      (rollover): rollover is Rollover =>
+        typeof rollover === "object" &&
+        rollover !== null &&
+        typeof rollover.from === "string" &&
+        typeof rollover.to === "string" &&
+        typeof rollover.at === "string" &&
+        (rollover.mode === "move" || rollover.mode === "copy"),
+    )
+    .map(({ from, to, at, mode, snapshot }) => {
+      const rollover: Rollover = { from, to, at, mode }
+      if (isSnapshot(snapshot)) rollover.snapshot = snapshotOf(snapshot as TrackedIssue)
+      return rollover
+    })
+}
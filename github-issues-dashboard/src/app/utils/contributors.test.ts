@@ -0,0 +1,44 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import type { TrackedIssue } from "@/app/types/contributor"
+import { contributorFromParam, contributorPath, issuesFor } from "@/app/utils/contributors"
+
+function tracked(number: number, contributor: string): TrackedIssue {
+  return {
+    repoKey: "acme/widgets",
+    number,
+    title: `Issue ${number}`,
+    html_url: `https://github.com/acme/widgets/issues/${number}`,
+    labels: [],
+    assignee: null,
+    comments: 0,
+    updated_at: "2026-10-01T00:00:00Z",
+    status: "IN_PROGRESS",
+    dateAdded: "2026-10-01T00:00:00Z",
+    period: "2026-10",
+    contributor,
+  }
+}
+
+// useParams hands the page the segment as it appears in the link contributorPath built
+const routeParam = (name: string) => contributorPath(name).split("/").at(-1) ?? ""
+
+test("contributor names with spaces and non-ASCII characters survive the link to their page", () => {
+  const issues = [tracked(1, "Jane Doe"), tracked(2, "Zoë Ångström"), tracked(3, "someone-else")]
+  for (const name of ["Jane Doe", "Zoë Ångström", "50% done"]) {
+    assert.notEqual(routeParam(name), name)
+    assert.equal(contributorFromParam(routeParam(name)), name)
+  }
+  assert.deepEqual(
+    issuesFor(issues, contributorFromParam(routeParam("Jane Doe"))).map((issue) => issue.number),
+    [1],
+  )
+  assert.deepEqual(
+    issuesFor(issues, contributorFromParam(routeParam("Zoë Ångström"))).map((issue) => issue.number),
+    [2],
+  )
+})
+
+test("a param that is not valid encoding is used as typed", () => {
+  assert.equal(contributorFromParam("100%"), "100%")
+})
@@ -0,0 +1,81 @@
+import { STATUS_WORKFLOW } from "@/app/config/statuses"
+import type { ContributorStatus, TrackedIssue } from "@/app/types/contributor"
+import { contributorOf, summarize, type PeriodSummary } from "@/app/utils/analytics"
+
+export type LeaderboardEntry = PeriodSummary & {
+  contributor: string
+  avatarUrl: string | null
+  byStatus: Record<ContributorStatus, number>
+  // Tracking periods the contributor has issues in
+  periods: string[]
+  repos: string[]
+}
+
+// GitHub logins: alphanumerics and single hyphens, at most 39 characters
+const GITHUB_LOGIN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i
+
+export function isGithubLogin(name: string): boolean {
+  return GITHUB_LOGIN.test(name)
+}
+
+export function contributorPath(contributor: string): string {
+  return `/contributors/${encodeURIComponent(contributor)}`
+}
+
+// The contributor named by a /contributors/[name] route param, which useParams hands over still encoded.
+// A param that isn't valid encoding, e.g. a hand-typed "%", is used as it is.
+export function contributorFromParam(param: string): string {
+  try {
+    return decodeURIComponent(param)
+  } catch {
+    return param
+  }
+}
+
+// Prefers the avatar GitHub sent with an assignee; otherwise guesses from the login
+export function contributorAvatar(issues: TrackedIssue[], contributor: string): string | null {
+  const fromPayload = issues.find(
+    (issue) => issue.assignee?.login.toLowerCase() === contributor.toLowerCase() && issue.assignee.avatar_url,
+  )?.assignee?.avatar_url
+  if (fromPayload) return fromPayload
+  return contributor !== "Unassigned" && isGithubLogin(contributor)
+    ? `https://github.com/${encodeURIComponent(contributor)}.png?size=80`
+    : null
+}
+
+export function issuesFor(issues: TrackedIssue[], contributor: string): TrackedIssue[] {
+  return issues.filter((issue) => contributorOf(issue).toLowerCase() === contributor.toLowerCase())
+}
+
+export function buildLeaderboard(issues: TrackedIssue[]): LeaderboardEntry[] {
+  const names = new Map<string, string>()
+  for (const issue of issues) {
+    const name = contributorOf(issue)
+    if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name)
+  }
+
+  return Array.from(names.values())
+    .map((contributor) => {
+      const contributed = issuesFor(issues, contributor)
+      return {
+        contributor,
+        avatarUrl: contributorAvatar(issues, contributor),
+        byStatus: Object.fromEntries(
+          STATUS_WORKFLOW.map((definition) => [
+            definition.id,
+            contributed.filter((issue) => issue.status === definition.id).length,
+          ]),
+        ) as Record<ContributorStatus, number>,
+        periods: Array.from(new Set(contributed.map((issue) => issue.period))),
+        repos: Array.from(new Set(contributed.map((issue) => issue.repoKey))).sort(),
+        ...summarize(contributed),
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(a.contributor === "Unassigned") - Number(b.contributor === "Unassigned") ||
+        b.merged - a.merged ||
+        b.tracked - a.tracked ||
+        a.contributor.localeCompare(b.contributor),
+    )
+}
@@ -0,0 +1,80 @@
+import { DEFAULT_ISSUE_FILTERS, type IssueFilters } from "@/app/types/github"
+import { isPeriodKey } from "@/app/utils/periods"
+
+export type DashboardTab = "issues" | "tracking" | "analytics"
+
+const TABS: DashboardTab[] = ["issues", "tracking", "analytics"]
+
+// What a link such as /vercel/next.js/tracking/2026-10?q=label:bug encodes
+export type DashboardLocation = {
+  owner: string
+  repo: string
+  tab: DashboardTab
+  // Tracking period key; only part of the path on the tracking tab
+  period: string | null
+  q: string
+  // Filters that differ from DEFAULT_ISSUE_FILTERS
+  filters: Partial<IssueFilters>
+}
+
+// Allowed values for filters that GitHub would reject otherwise; the rest are free text
+const FILTER_CHOICES: Partial<Record<keyof IssueFilters, readonly string[]>> = {
+  state: ["open", "closed", "all"],
+  sort: ["created", "updated", "comments"],
+  direction: ["asc", "desc"],
+}
+
+const FILTER_KEYS = Object.keys(DEFAULT_ISSUE_FILTERS) as (keyof IssueFilters)[]
+
+function isTab(value: string | undefined): value is DashboardTab {
+  return TABS.includes(value as DashboardTab)
+}
+
+// Null for paths that don't name a repository, such as "/"
+export function parseDashboardUrl(pathname: string, search: string): DashboardLocation | null {
+  const segments = pathname.split("/").filter(Boolean)
+  let decoded: string[]
+  try {
+    decoded = segments.map(decodeURIComponent)
+  } catch {
+    return null
+  }
+  const [owner, repo, tab, period] = decoded
+  if (!owner || !repo) return null
+
+  const params = new URLSearchParams(search)
+  const filters: Record<string, string> = {}
+  for (const key of FILTER_KEYS) {
+    const value = params.get(key)?.trim()
+    if (!value || FILTER_CHOICES[key]?.includes(value) === false) continue
+    filters[key] = value
+  }
+
+  const parsedTab = isTab(tab) ? tab : "issues"
+  return {
+    owner,
+    repo,
+    tab: parsedTab,
+    period: parsedTab === "tracking" && isPeriodKey(period) ? period : null,
+    q: params.get("q") ?? "",
+    filters: filters as Partial<IssueFilters>,
+  }
+}
+
+// The shortest URL that parses back to `location`: default tab, filters and an empty query are left out
+export function dashboardUrl(location: Omit<DashboardLocation, "filters"> & { filters: IssueFilters }): string {
+  if (!location.owner || !location.repo) return "/"
+
+  const segments = [location.owner, location.repo]
+  if (location.tab !== "issues") segments.push(location.tab)
+  if (location.tab === "tracking" && location.period) segments.push(location.period)
+
+  const params = new URLSearchParams()
+  if (location.q.trim()) params.set("q", location.q.trim())
+  for (const key of FILTER_KEYS) {
+    if (location.filters[key] !== DEFAULT_ISSUE_FILTERS[key]) params.set(key, location.filters[key])
+  }
+
+  const query = params.toString()
+  return `/${segments.map(encodeURIComponent).join("/")}${query ? `?${query}` : ""}`
+}
@@ -0,0 +1,220 @@
+import { DEFAULT_AGING_RULES, type AgingRules } from "@/app/config/aging";
+import { getStatusDefinition } from "@/app/config/statuses";
+import type { TrackedIssue } from "@/app/types/contributor";
+import type { Digest, DigestFormat, DigestItem, DigestPeriod } from "@/app/types/digest";
+import { agingAlerts } from "@/app/utils/aging";
+import { contributorOf } from "@/app/utils/analytics";
+import { isUnfinished } from "@/app/utils/carry-over";
+import { formatMonthYear } from "@/app/utils/helpers";
+import { firstEnteredAt, rewindTo } from "@/app/utils/history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer sections are cut short and point at the dashboard instead
+const MAX_ITEMS_PER_SECTION = 15;
+const MAX_TITLE_LENGTH = 80;
+
+// A webhook that hangs must not hold the request open
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Discord embed colour (emerald, like the dashboard's primary colour)
+const DISCORD_COLOR = 0x10b981;
+
+type DigestSection = {
+  key: "merged" | "started" | "stale" | "unassigned"
+  title: string
+  empty: string
+};
+
+const SECTIONS: DigestSection[] = [
+  { key: "merged", title: "Newly merged", empty: "Nothing merged" },
+  { key: "started", title: "Newly started", empty: "Nothing started" },
+  { key: "stale", title: "Stale", empty: "Nothing stale" },
+  { key: "unassigned", title: "Unassigned", empty: "Everything has an owner" },
+];
+
+export function isDigestPeriod(value: unknown): value is DigestPeriod {
+  return value === "week" || value === "month";
+}
+
+export function isDigestFormat(value: unknown): value is DigestFormat {
+  return value === "markdown" || value === "slack" || value === "discord";
+}
+
+// A week ends at `end`; a month is the calendar month `end` falls in
+export function periodBounds(period: DigestPeriod, end: Date): { from: Date; to: Date } {
+  if (period === "week") return { from: new Date(end.getTime() - 7 * DAY_MS), to: end };
+  return {
+    from: new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1)),
+    to: new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 1)),
+  };
+}
+
+function toItem(issue: TrackedIssue, detail?: string): DigestItem {
+  const contributor = contributorOf(issue);
+  return {
+    number: issue.number,
+    title: issue.title,
+    url: issue.html_url,
+    contributor: contributor === "Unassigned" ? null : contributor,
+    detail,
+  };
+}
+
+function within(at: number | null, from: Date, to: Date): boolean {
+  return at !== null && at >= from.getTime() && at < to.getTime();
+}
+
+// Stale and unassigned describe the state at the end of the period, rewound through each issue's history;
+// merged and started what happened in it
+export function buildDigest(
+  repoKey: string,
+  issues: TrackedIssue[],
+  period: DigestPeriod,
+  end: Date = new Date(),
+  rules: AgingRules = DEFAULT_AGING_RULES
+): Digest {
+  const { from, to } = periodBounds(period, end);
+  const asOf = Math.min(end.getTime(), to.getTime());
+  const byNumber = (a: DigestItem, b: DigestItem) => a.number - b.number;
+
+  const merged = issues
+    .filter((issue) => issue.mergedAt && within(Date.parse(issue.mergedAt), from, to))
+    .map((issue) => toItem(issue));
+  const started = issues
+    .filter((issue) => within(firstEnteredAt(issue, ["IN_PROGRESS"]), from, to))
+    .map((issue) =>
+      toItem(issue, issue.status === "IN_PROGRESS" ? undefined : `Now ${getStatusDefinition(issue.status).label}`)
+    );
+  const atEnd = issues
+    .filter((issue) => Date.parse(issue.dateAdded) <= asOf)
+    .map((issue) => rewindTo(issue, asOf));
+  const stale = atEnd.flatMap((issue) => {
+    const alerts = agingAlerts(issue, rules, asOf);
+    return alerts.length > 0 ? [toItem(issue, alerts.map((alert) => alert.message).join("; "))] : [];
+  });
+  const unassigned = atEnd
+    .filter((issue) => isUnfinished(issue) && !issue.assignee && !issue.contributor)
+    .map((issue) => toItem(issue));
+
+  return {
+    repoKey,
+    period,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    merged: merged.sort(byNumber),
+    started: started.sort(byNumber),
+    stale: stale.sort(byNumber),
+    unassigned: unassigned.sort(byNumber),
+  };
+}
+
+function periodLabel(digest: Digest): string {
+  if (digest.period === "month") return formatMonthYear(digest.from.slice(0, 7));
+  const day = (iso: string) => new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  return `${day(digest.from)} – ${day(new Date(Date.parse(digest.to) - 1).toISOString())}`;
+}
+
+function digestTitle(digest: Digest): string {
+  return `${digest.period === "week" ? "Weekly" : "Monthly"} digest for ${digest.repoKey}: ${periodLabel(digest)}`;
+}
+
+// Chat messages have length limits, so titles are cut to keep a full section within them
+function shorten(title: string): string {
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+// One line per issue; `link` formats "#12 Title" as a link in the target syntax
+function itemLines(items: DigestItem[], link: (item: DigestItem) => string, bullet = "•"): string[] {
+  const lines = items.slice(0, MAX_ITEMS_PER_SECTION).map((item) => {
+    const extras = [item.contributor, item.detail].filter(Boolean).join(" · ");
+    return `${bullet} ${link(item)}${extras ? ` — ${extras}` : ""}`;
+  });
+  if (items.length > MAX_ITEMS_PER_SECTION) lines.push(`…and ${items.length - MAX_ITEMS_PER_SECTION} more`);
+  return lines;
+}
+
+export function renderMarkdown(digest: Digest): string {
+  const lines = [`# ${digestTitle(digest)}`, ""];
+  for (const section of SECTIONS) {
+    const items = digest[section.key];
+    lines.push(`## ${section.title} (${items.length})`, "");
+    if (items.length === 0) {
+      lines.push(`_${section.empty}_`);
+    } else {
+      const escape = (title: string) => title.replace(/([\\[\]])/g, "\\$1");
+      lines.push(...itemLines(items, (item) => `[#${item.number} ${escape(item.title)}](${item.url})`, "-"));
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// Slack incoming-webhook payload: a plain-text fallback plus mrkdwn blocks
+export function renderSlack(digest: Digest) {
+  const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return {
+    text: digestTitle(digest),
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: digestTitle(digest).slice(0, 150) } },
+      ...SECTIONS.map((section) => {
+        const items = digest[section.key];
+        const body = items.length === 0
+          ? `_${section.empty}_`
+          : itemLines(items, (item) => `<${item.url}|#${item.number} ${escape(shorten(item.title))}>`).join("\n");
+        return {
+          type: "section",
+          text: { type: "mrkdwn", text: `*${section.title} (${items.length})*\n${body}`.slice(0, 3000) },
+        };
+      }),
+    ],
+  };
+}
+
+// Discord webhook payload: one embed with a field per section
+export function renderDiscord(digest: Digest) {
+  return {
+    embeds: [
+      {
+        title: digestTitle(digest).slice(0, 256),
+        color: DISCORD_COLOR,
+        fields: SECTIONS.map((section) => {
+          const items = digest[section.key];
+          const value = items.length === 0
+            ? `*${section.empty}*`
+            : itemLines(items, (item) => {
+              const title = shorten(item.title).replace(/[[\]]/g, "");
+              return `[#${item.number} ${title}](${item.url})`;
+            }).join("\n");
+          return { name: `${section.title} (${items.length})`, value: value.slice(0, 1024) };
+        }),
+      },
+    ],
+  };
+}
+
+export function renderDigest(digest: Digest, format: DigestFormat): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(digest);
+    case "slack":
+      return JSON.stringify(renderSlack(digest));
+    case "discord":
+      return JSON.stringify(renderDiscord(digest));
+  }
+}
+
+// Discord's webhook URLs are recognisable; anything else is assumed to speak Slack's format
+export function webhookFormatFor(url: string): DigestFormat {
+  const host = new URL(url).hostname;
+  return host === "discord.com" || host.endsWith(".discord.com") || host === "discordapp.com" ? "discord" : "slack";
+}
+
+export function deliverDigest(url: string, format: DigestFormat, digest: Digest): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": format === "markdown" ? "text/markdown; charset=utf-8" : "application/json" },
+    body: renderDigest(digest, format),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+}
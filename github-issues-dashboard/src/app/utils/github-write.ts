@@ -0,0 +1,95 @@
+import type { Issue, IssueActionResponse, IssuesErrorResponse } from "@/app/types/github"
+
+export type IssueAction =
+  | { type: "assign"; login: string }
+  | { type: "unassign"; login: string }
+  | { type: "addLabel"; label: string }
+  | { type: "removeLabel"; label: string }
+  | { type: "comment"; body: string }
+  | { type: "close"; reason: "completed" | "not_planned" }
+  | { type: "reopen" }
+
+// The GitHub-owned fields a write can change; kept to roll back an optimistic update
+export type WritableFields = Pick<Issue, "assignee" | "labels" | "state" | "comments" | "updated_at">
+
+// Colour for a label added optimistically, until GitHub answers with the real one
+const PENDING_LABEL_COLOR = "ededed"
+
+export function writableFields(issue: Issue): WritableFields {
+  return {
+    assignee: issue.assignee,
+    labels: issue.labels,
+    state: issue.state,
+    comments: issue.comments,
+    updated_at: issue.updated_at,
+  }
+}
+
+// What the issue should look like once GitHub accepts the action
+export function applyOptimistic<T extends Issue>(issue: T, action: IssueAction): T {
+  switch (action.type) {
+    case "assign":
+      return issue.assignee ? issue : { ...issue, assignee: { login: action.login } }
+    case "unassign":
+      return issue.assignee?.login.toLowerCase() === action.login.toLowerCase() ? { ...issue, assignee: null } : issue
+    case "addLabel":
+      return issue.labels.some((label) => label.name.toLowerCase() === action.label.toLowerCase())
+        ? issue
+        : { ...issue, labels: [...issue.labels, { name: action.label, color: PENDING_LABEL_COLOR }] }
+    case "removeLabel":
+      return { ...issue, labels: issue.labels.filter((label) => label.name !== action.label) }
+    case "comment":
+      return { ...issue, comments: issue.comments + 1 }
+    case "close":
+      return { ...issue, state: "closed" }
+    case "reopen":
+      return { ...issue, state: "open" }
+  }
+}
+
+function requestFor(action: IssueAction): { path: string; method: string; body: unknown } {
+  switch (action.type) {
+    case "assign":
+    case "unassign":
+      return {
+        path: "/assignees",
+        method: action.type === "assign" ? "POST" : "DELETE",
+        body: { assignees: [action.login] },
+      }
+    case "addLabel":
+    case "removeLabel":
+      return {
+        path: "/labels",
+        method: action.type === "addLabel" ? "POST" : "DELETE",
+        body: { labels: [action.label] },
+      }
+    case "comment":
+      return { path: "/comments", method: "POST", body: { body: action.body } }
+    case "close":
+      return { path: "", method: "PATCH", body: { state: "closed", state_reason: action.reason } }
+    case "reopen":
+      return { path: "", method: "PATCH", body: { state: "open", state_reason: "reopened" } }
+  }
+}
+
+// Resolves to GitHub's copy of the issue after the change, or to the reason it was refused
+export async function sendIssueAction(
+  repoKey: string,
+  number: number,
+  action: IssueAction,
+  token: string,
+): Promise<{ issue: Issue } | { error: string }> {
+  const [owner, repo] = repoKey.split("/")
+  const { path, method, body } = requestFor(action)
+  const headers: HeadersInit = { "Content-Type": "application/json", ...(token ? { "X-GitHub-Token": token } : {}) }
+  try {
+    const res = await fetch(
+      `/api/issues/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${number}${path}`,
+      { method, headers, body: JSON.stringify(body) },
+    )
+    const data: IssueActionResponse | IssuesErrorResponse = await res.json()
+    return "error" in data ? { error: data.error } : { issue: data.issue }
+  } catch {
+    return { error: "Could not reach the dashboard server" }
+  }
+}
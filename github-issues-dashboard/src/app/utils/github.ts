@@ -0,0 +1,232 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { CacheStatus, IssuesErrorCode, IssuesErrorResponse, RateLimit } from "@/app/types/github";
+import { cacheKey, getCacheStore, getCacheTtlMs, type CacheEntry } from "@/app/utils/cache";
+
+export const GITHUB_API = "https://api.github.com";
+
+// Header the dashboard uses to forward a user-supplied personal access token
+export const TOKEN_HEADER = "x-github-token";
+
+// The token the caller sent with the request, if any
+export function userToken(req: NextRequest): string | null {
+  return req.headers.get(TOKEN_HEADER)?.trim() || null;
+}
+
+// A token typed into the UI wins over the server-wide one so users can reach
+// private repos they have access to without changing the deployment config.
+export function resolveToken(req: NextRequest): string | null {
+  return userToken(req) ?? (process.env.GITHUB_TOKEN?.trim() || null);
+}
+
+export function githubFetch(path: string, token: string | null, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  if (!headers.has("Accept")) headers.set("Accept", "application/vnd.github+json");
+  headers.set("X-GitHub-Api-Version", "2022-11-28");
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const url = path.startsWith("http") ? path : `${GITHUB_API}${path}`;
+  return fetch(url, { ...init, headers });
+}
+
+// Response headers worth replaying from a cached entry
+const CACHED_HEADERS = [
+  "etag",
+  "link",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-used",
+  "x-ratelimit-resource",
+];
+
+function pickHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of CACHED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) picked[name] = value;
+  }
+  return picked;
+}
+
+function responseFromEntry(entry: CacheEntry, status: CacheStatus, live?: Headers): Response {
+  const headers = new Headers(entry.headers);
+  // On a 304 the live rate-limit headers are more accurate than the stored ones
+  if (live) {
+    for (const [name, value] of Object.entries(pickHeaders(live))) headers.set(name, value);
+  }
+  headers.set("content-type", "application/json");
+  headers.set("x-cache", status);
+  return new Response(entry.body, { status: entry.status, headers });
+}
+
+// GET through the response cache: entries younger than the TTL are served
+// without touching GitHub, older ones are revalidated with If-None-Match so an
+// unchanged resource costs a 304, which GitHub does not count against the quota.
+// `fresh` skips the TTL but still revalidates. `accept` picks another media type,
+// e.g. "application/vnd.github.html+json" for rendered Markdown bodies.
+export async function cachedGithubFetch(
+  path: string,
+  token: string | null,
+  { fresh = false, accept }: { fresh?: boolean; accept?: string } = {}
+): Promise<Response> {
+  const store = getCacheStore();
+  const headers = new Headers(accept ? { Accept: accept } : undefined);
+  if (!store) return githubFetch(path, token, { headers });
+
+  const key = accept ? cacheKey(token, "GET", path, accept) : cacheKey(token, "GET", path);
+  const entry = await store.get(key);
+
+  if (entry && !fresh && Date.now() - entry.storedAt < getCacheTtlMs()) {
+    return responseFromEntry(entry, "HIT");
+  }
+
+  if (entry?.etag) headers.set("If-None-Match", entry.etag);
+  const res = await githubFetch(path, token, { headers });
+
+  if (res.status === 304 && entry) {
+    const refreshed = { ...entry, storedAt: Date.now() };
+    await store.set(key, refreshed);
+    return responseFromEntry(refreshed, "REVALIDATED", res.headers);
+  }
+
+  if (!res.ok) return res;
+
+  const body = await res.text();
+  const stored: CacheEntry = {
+    status: res.status,
+    body,
+    headers: pickHeaders(res.headers),
+    etag: res.headers.get("etag"),
+    storedAt: Date.now(),
+  };
+  await store.set(key, stored);
+  return responseFromEntry(stored, fresh ? "BYPASS" : "MISS");
+}
+
+export function parseRateLimit(headers: Headers): RateLimit | null {
+  const limit = headers.get("x-ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(headers.get("x-ratelimit-used") ?? Number(limit) - Number(remaining)),
+    reset: Number(reset),
+    resource: headers.get("x-ratelimit-resource") ?? "core",
+  };
+}
+
+type GraphQLResponse<T> = {
+  data?: T;
+  errors?: { message: string }[];
+};
+
+// GitHub's GraphQL API rejects anonymous requests, so callers must check for a token first
+// GraphQL POSTs carry no ETag, so results are only reused within the cache TTL.
+export async function githubGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  token: string,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<{ data: T | null; errors: string[]; rateLimit: RateLimit | null }> {
+  const payload = JSON.stringify({ query, variables });
+  const store = getCacheStore();
+  const key = cacheKey(token, "POST", "/graphql", payload);
+
+  const entry = store ? await store.get(key) : null;
+  if (entry && !fresh && Date.now() - entry.storedAt < getCacheTtlMs()) {
+    const body: GraphQLResponse<T> = JSON.parse(entry.body);
+    return { data: body.data ?? null, errors: [], rateLimit: null };
+  }
+
+  const res = await githubFetch("/graphql", token, { method: "POST", body: payload });
+  const rateLimit = parseRateLimit(res.headers);
+  if (!res.ok) {
+    return { data: null, errors: [`GitHub GraphQL responded with ${res.status}`], rateLimit };
+  }
+
+  const text = await res.text();
+  const body: GraphQLResponse<T> = JSON.parse(text);
+  const errors = (body.errors ?? []).map((e) => e.message);
+  // Partial results are not cached so the next request retries the failed parts
+  if (store && errors.length === 0) {
+    await store.set(key, { status: res.status, body: text, headers: {}, etag: null, storedAt: Date.now() });
+  }
+  return { data: body.data ?? null, errors, rateLimit };
+}
+
+// GitHub answers an exhausted quota with 403 (primary limit) or 429 (secondary)
+export function isRateLimited(res: Response): boolean {
+  if (res.status === 429) return true;
+  return res.status === 403 && res.headers.get("x-ratelimit-remaining") === "0";
+}
+
+export function errorCodeForStatus(status: number): IssuesErrorCode {
+  switch (status) {
+    case 400:
+    case 422:
+      return "invalid_request";
+    case 401:
+      return "unauthorized";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not_found";
+    case 429:
+      return "rate_limited";
+    default:
+      return "github_error";
+  }
+}
+
+export function issuesErrorResponse(
+  code: IssuesErrorCode,
+  error: string,
+  status: number,
+  rateLimit: RateLimit | null = null
+) {
+  return NextResponse.json<IssuesErrorResponse>({ error, code, rateLimit }, { status });
+}
+
+// fetch() rejects, rather than resolving with a status, when GitHub cannot be reached at all
+export function networkErrorResponse(error: unknown) {
+  const reason = error instanceof Error && error.cause instanceof Error ? error.cause.message : null;
+  return issuesErrorResponse(
+    "network",
+    `Could not reach GitHub${reason ? ` (${reason})` : ""}. Check the server's connection and try again.`,
+    502
+  );
+}
+
+// Keeps whichever snapshot reports the least remaining quota, since requests
+// made in parallel can come back out of order.
+export function lowestRateLimit(a: RateLimit | null, b: RateLimit | null): RateLimit | null {
+  if (!a) return b;
+  if (!b) return a;
+  return b.remaining < a.remaining ? b : a;
+}
+
+// Parses an RFC 8288 Link header into a map of rel -> URL
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+export function nextPageFromLink(header: string | null): number | null {
+  const next = parseLinkHeader(header).next;
+  if (!next) return null;
+  const page = Number(new URL(next).searchParams.get("page"));
+  return Number.isInteger(page) && page > 0 ? page : null;
+}
@@ -0,0 +1,88 @@
+import type { ContributorData, ContributorStatus, TrackedIssue } from "@/app/types/contributor"
+import type { Issue } from "@/app/types/github"
+
+export function getCurrentMonthYear(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
+}
+
+export function formatMonthYear(monthYear: string): string {
+  const [year, month] = monthYear.split("-")
+  const date = new Date(Number.parseInt(year), Number.parseInt(month) - 1)
+  return date.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+}
+
+export function repoKeyOf(owner: string, repo: string): string {
+  return `${owner.trim()}/${repo.trim()}`.toLowerCase()
+}
+
+// GitHub's naming rules: owners are alphanumeric with single inner hyphens, repos also allow "." and "_"
+const OWNER_NAME = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i
+const REPO_NAME = /^[\w.-]{1,100}$/
+
+// Why owner/repo cannot name a GitHub repository, or null when they can
+export function repoNameError(owner: string, repo: string): string | null {
+  if (!owner.trim() || !repo.trim()) return "Enter both an owner and a repository"
+  if (!OWNER_NAME.test(owner.trim())) return `"${owner.trim()}" is not a valid GitHub user or organization name`
+  if (!REPO_NAME.test(repo.trim()) || repo.trim() === "." || repo.trim() === "..") {
+    return `"${repo.trim()}" is not a valid repository name`
+  }
+  return null
+}
+
+// Stable identity for a tracked issue across repositories, e.g. "vercel/next.js#12"
+export function trackedIssueKey(issue: Pick<TrackedIssue, "repoKey" | "number">): string {
+  return `${issue.repoKey}#${issue.number}`
+}
+
+export function isSameTrackedIssue(
+  a: Pick<TrackedIssue, "repoKey" | "number">,
+  b: Pick<TrackedIssue, "repoKey" | "number">,
+): boolean {
+  return a.repoKey === b.repoKey && a.number === b.number
+}
+
+// Shape checks for GitHub fields in imported or API-supplied records
+export function isIssueLabel(value: unknown): value is Issue["labels"][number] {
+  if (typeof value !== "object" || value === null) return false
+  const { name, color } = value as Record<string, unknown>
+  return typeof name === "string" && typeof color === "string"
+}
+
+export function isIssueUser(value: unknown): value is NonNullable<Issue["assignee"]> {
+  if (typeof value !== "object" || value === null) return false
+  const { login, avatar_url } = value as Record<string, unknown>
+  return typeof login === "string" && login !== "" && (avatar_url === undefined || typeof avatar_url === "string")
+}
+
+export function groupByRepo(trackedIssues: TrackedIssue[]): ContributorData {
+  const grouped: ContributorData = {}
+  for (const issue of trackedIssues) {
+    if (!grouped[issue.repoKey]) grouped[issue.repoKey] = []
+    grouped[issue.repoKey].push(issue)
+  }
+  return grouped
+}
+
+// Status implied by GitHub data alone: a merged PR wins, then an open PR under review, then an assignee
+export function deriveStatus(issue: Issue): ContributorStatus {
+  if (issue.merged) return "MERGED"
+  if (issue.linkedPullRequests?.some((pr) => pr.state === "OPEN")) return "IN_REVIEW"
+  if (issue.assignee) return "IN_PROGRESS"
+  return "EMPTY"
+}
+
+// Sets the status and stamps `mergedAt` when an issue moves into MERGED (cleared if it leaves again).
+// Issues that were already MERGED keep whatever they had, so old data isn't stamped with today's date.
+export function applyStatus(issue: TrackedIssue, status: ContributorStatus): TrackedIssue {
+  if (status !== "MERGED") return { ...issue, status, mergedAt: undefined }
+  if (issue.status === "MERGED") return { ...issue, status }
+  return { ...issue, status, mergedAt: new Date().toISOString() }
+}
+
+// Moves a "2026-10" month key by `delta` months, rolling over year boundaries
+export function shiftMonth(monthYear: string, delta: number): string {
+  const [year, month] = monthYear.split("-").map(Number)
+  const date = new Date(year, month - 1 + delta)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`
+}
@@ -0,0 +1,129 @@
+import type {
+  ContributorStatus,
+  HistoryEntry,
+  HistoryField,
+  HistorySource,
+  TrackedIssue,
+} from "@/app/types/contributor"
+
+export const HISTORY_FIELDS: HistoryField[] = ["status", "assignee", "contributor", "notes", "period"]
+
+// Oldest entries are dropped past this so a noisy issue can't grow its record without bound
+const MAX_HISTORY_ENTRIES = 200
+
+const HISTORY_SOURCES = new Set<string>(["auto", "manual"])
+
+function fieldValue(issue: TrackedIssue, field: HistoryField): string | null {
+  switch (field) {
+    case "status":
+      return issue.status
+    case "assignee":
+      return issue.assignee?.login ?? null
+    case "contributor":
+      return issue.contributor || null
+    case "notes":
+      return issue.notes || null
+    case "period":
+      return issue.period
+  }
+}
+
+function appendHistory(issue: TrackedIssue, entries: HistoryEntry[]): TrackedIssue {
+  if (entries.length === 0) return issue
+  return { ...issue, history: [...(issue.history ?? []), ...entries].slice(-MAX_HISTORY_ENTRIES) }
+}
+
+function withFieldValue(issue: TrackedIssue, field: HistoryField, value: string | null): TrackedIssue {
+  switch (field) {
+    case "status":
+      return value === null ? issue : { ...issue, status: value as ContributorStatus }
+    case "assignee":
+      if (value === issue.assignee?.login) return issue
+      return { ...issue, assignee: value === null ? null : { login: value } }
+    case "contributor":
+      return { ...issue, contributor: value ?? undefined }
+    case "notes":
+      return { ...issue, notes: value ?? undefined }
+    case "period":
+      return value === null ? issue : { ...issue, period: value }
+  }
+}
+
+// Appends one entry per tracked field that differs between `previous` and `next`
+export function recordChanges(
+  previous: TrackedIssue,
+  next: TrackedIssue,
+  source: HistorySource,
+  at: string = new Date().toISOString(),
+): TrackedIssue {
+  const entries = HISTORY_FIELDS.flatMap((field): HistoryEntry[] => {
+    const from = fieldValue(previous, field)
+    const to = fieldValue(next, field)
+    return from === to ? [] : [{ field, from, to, at, source }]
+  })
+  return appendHistory({ ...next, history: previous.history }, entries)
+}
+
+// Seeds the history of a newly tracked issue with its starting status and assignee
+export function startHistory(issue: TrackedIssue, source: HistorySource): TrackedIssue {
+  const at = issue.dateAdded
+  const entries: HistoryEntry[] = [{ field: "status", from: null, to: issue.status, at, source }]
+  if (issue.assignee) entries.push({ field: "assignee", from: null, to: issue.assignee.login, at, source })
+  return appendHistory({ ...issue, history: [] }, entries)
+}
+
+export function statusHistory(issue: TrackedIssue): HistoryEntry[] {
+  return (issue.history ?? []).filter((entry) => entry.field === "status")
+}
+
+// First time the issue entered any of `statuses`, as epoch ms
+export function firstEnteredAt(issue: TrackedIssue, statuses: ContributorStatus[]): number | null {
+  const entry = statusHistory(issue).find((candidate) => statuses.includes(candidate.to as ContributorStatus))
+  return entry ? Date.parse(entry.at) : null
+}
+
+// Milliseconds spent in each status, the current one counting up to `now`
+export function timeInStatus(issue: TrackedIssue, now: number = Date.now()): Partial<Record<ContributorStatus, number>> {
+  const durations: Partial<Record<ContributorStatus, number>> = {}
+  const changes = statusHistory(issue)
+  changes.forEach((entry, index) => {
+    const status = entry.to as ContributorStatus
+    const end = index + 1 < changes.length ? Date.parse(changes[index + 1].at) : now
+    const spent = end - Date.parse(entry.at)
+    if (!Number.isNaN(spent)) durations[status] = (durations[status] ?? 0) + Math.max(0, spent)
+  })
+  return durations
+}
+
+// Keeps only well-formed entries from imported or API-supplied records
+export function sanitizeHistory(value: unknown): HistoryEntry[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  return value.filter(
+    (entry): entry is HistoryEntry =>
+      typeof entry === "object" &&
+      entry !== null &&
+      HISTORY_FIELDS.includes(entry.field) &&
+      HISTORY_SOURCES.has(entry.source) &&
+      typeof entry.at === "string" &&
+      !Number.isNaN(Date.parse(entry.at)) &&
+      (entry.from === null || typeof entry.from === "string") &&
+      (entry.to === null || typeof entry.to === "string"),
+  )
+}
+
+// The issue as its history says it stood at `at` (epoch ms), undoing later changes newest first.
+// Fields without history, like labels and linked pull requests, stay as they are now.
+export function rewindTo(issue: TrackedIssue, at: number): TrackedIssue {
+  const history = issue.history ?? []
+  const kept = history.filter((entry) => Date.parse(entry.at) <= at)
+  let rewound: TrackedIssue = { ...issue, history: kept }
+  const later = history.filter((entry) => Date.parse(entry.at) > at)
+  for (const entry of later.reverse()) {
+    rewound = withFieldValue(rewound, entry.field, entry.from)
+  }
+  // A later GitHub update hides when the issue last moved before `at`; the last synced change is the best guess
+  if (Date.parse(issue.updated_at) > at) {
+    rewound.updated_at = kept.filter((entry) => entry.source === "auto").at(-1)?.at ?? issue.dateAdded
+  }
+  return rewound
+}
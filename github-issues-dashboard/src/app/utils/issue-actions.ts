@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Issue, IssueActionResponse, IssuesErrorResponse, RateLimit } from "@/app/types/github";
+import {
+  errorCodeForStatus,
+  githubFetch,
+  issuesErrorResponse,
+  isRateLimited,
+  networkErrorResponse,
+  parseRateLimit,
+  userToken,
+} from "@/app/utils/github";
+import { repoNameError } from "@/app/utils/helpers";
+
+export type IssueRouteContext = { params: Promise<{ owner: string; repo: string; number: string }> };
+
+// One write request against GitHub; `path` is relative to the issue, e.g. "/assignees"
+export type IssueWrite = {
+  method: "POST" | "PATCH" | "DELETE"
+  path: string
+  body?: unknown
+  // Statuses that count as success besides 2xx, e.g. 404 when removing a label that is already gone
+  allowStatus?: number[]
+};
+
+// GitHub's copy of the issue after the writes, with the fields a route may need to check
+export type WrittenIssue = Issue & { assignees?: { login: string }[] };
+
+// Turns GitHub's terse write errors into something a user can act on
+async function describeWriteError(res: Response, target: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  const message: string = data?.message ?? `GitHub responded with ${res.status}`;
+  switch (res.status) {
+    case 401:
+      return "GitHub rejected the token. Check that it is valid and has not expired.";
+    case 403:
+      return `The token is not allowed to change ${target}. It needs write access to the repository (classic tokens: the "repo" scope; fine-grained tokens: Issues read and write).`;
+    case 404:
+      return `${target} was not found, or the token cannot see it.`;
+    case 410:
+      return `Issues are disabled for ${target.split("#")[0]}.`;
+    case 422: {
+      const details = Array.isArray(data?.errors)
+        ? data.errors.map((error: { message?: string; code?: string }) => error.message ?? error.code).filter(Boolean)
+        : [];
+      return details.length > 0 ? `${message}: ${details.join(", ")}` : message;
+    }
+    default:
+      return message;
+  }
+}
+
+async function writeErrorResponse(res: Response, target: string, rateLimit: RateLimit | null) {
+  const message = await describeWriteError(res, target);
+  return issuesErrorResponse(errorCodeForStatus(res.status), message, res.status, rateLimit);
+}
+
+export function stringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const items = value.filter((item): item is string => typeof item === "string").map((item) => item.trim());
+  return items.length > 0 && items.length === value.length && items.every(Boolean) ? items : null;
+}
+
+// Runs `writes` in order against /repos/:owner/:repo/issues/:number and answers with the issue as
+// GitHub now has it. Writes need the caller's own token: the routes are not authenticated, so falling back to
+// the server's GITHUB_TOKEN would let anyone who can reach the dashboard write with it. The first failure stops
+// the sequence.
+export async function performIssueWrites(
+  req: NextRequest,
+  context: IssueRouteContext,
+  writes: IssueWrite[],
+  // Returns a reason when GitHub answered with success but did not make the change
+  verify?: (issue: WrittenIssue) => string | null
+): Promise<NextResponse<IssueActionResponse | IssuesErrorResponse>> {
+  const token = userToken(req);
+  if (!token) {
+    return issuesErrorResponse("unauthorized", "Add your own GitHub token to make changes on GitHub", 401);
+  }
+
+  const { owner, repo, number } = await context.params;
+  const nameError = repoNameError(owner, repo);
+  if (nameError) {
+    return issuesErrorResponse("invalid_request", nameError, 400);
+  }
+  const issueNumber = Number(number);
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    return issuesErrorResponse("invalid_request", "Issue number must be a positive integer", 400);
+  }
+
+  const target = `${owner}/${repo}#${issueNumber}`;
+  const issuePath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}`;
+  let rateLimit: RateLimit | null = null;
+
+  try {
+    for (const write of writes) {
+      const res = await githubFetch(`${issuePath}${write.path}`, token, {
+        method: write.method,
+        headers: write.body === undefined ? undefined : { "Content-Type": "application/json" },
+        body: write.body === undefined ? undefined : JSON.stringify(write.body),
+      });
+      rateLimit = parseRateLimit(res.headers) ?? rateLimit;
+
+      if (isRateLimited(res)) {
+        return issuesErrorResponse("rate_limited", "GitHub API rate limit exceeded", 429, rateLimit);
+      }
+      if (!res.ok && !write.allowStatus?.includes(res.status)) {
+        return writeErrorResponse(res, target, rateLimit);
+      }
+    }
+
+    // Read back the whole issue so the dashboard can replace its optimistic copy
+    const issueRes = await githubFetch(issuePath, token);
+    rateLimit = parseRateLimit(issueRes.headers) ?? rateLimit;
+    if (!issueRes.ok) {
+      return writeErrorResponse(issueRes, target, rateLimit);
+    }
+    const issue: WrittenIssue = await issueRes.json();
+    const refused = verify?.(issue);
+    if (refused) {
+      return issuesErrorResponse("invalid_request", refused, 422, rateLimit);
+    }
+    return NextResponse.json<IssueActionResponse>({ issue, rateLimit });
+  } catch (error) {
+    return networkErrorResponse(error);
+  }
+}
+
+// Cross-site form posts can send text/plain without a preflight, so only JSON bodies are accepted
+export function requireJsonBody(req: NextRequest) {
+  const type = req.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (type === "application/json") return null;
+  return issuesErrorResponse("invalid_request", "Send the body as application/json", 415);
+}
+
+export async function readJsonBody(req: NextRequest): Promise<Record<string, unknown> | null> {
+  const body = await req.json().catch(() => null);
+  return typeof body === "object" && body !== null ? body : null;
+}
+
+export function badRequest(error: string) {
+  return issuesErrorResponse("invalid_request", error, 400);
+}
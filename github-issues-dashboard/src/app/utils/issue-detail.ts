@@ -0,0 +1,212 @@
+import { NextResponse } from "next/server";
+import type {
+  GithubUser,
+  Issue,
+  IssueComment,
+  IssueDetailResponse,
+  IssuesErrorResponse,
+  LinkedPullRequest,
+  RateLimit,
+  ReactionContent,
+  Reactions,
+  ReviewState,
+  ReviewedPullRequest,
+} from "@/app/types/github";
+import {
+  cachedGithubFetch,
+  errorCodeForStatus,
+  issuesErrorResponse,
+  isRateLimited,
+  lowestRateLimit,
+  parseRateLimit,
+} from "@/app/utils/github";
+import { fetchLinkedPullRequests, fetchLinkedPullRequestsFromTimeline, isMerged } from "@/app/utils/pull-requests";
+
+// GitHub renders Markdown server-side when asked for this media type
+const HTML_MEDIA_TYPE = "application/vnd.github.html+json";
+
+// Review requests cost one call per pull request, so only the first few are looked up
+const MAX_REVIEWED_PULLS = 10;
+
+const REACTIONS: ReactionContent[] = ["+1", "-1", "laugh", "hooray", "confused", "heart", "rocket", "eyes"];
+
+type RestReactions = { total_count: number } & Partial<Record<ReactionContent, number>>;
+
+type RestUser = { login: string; avatar_url?: string } | null;
+
+type RestIssue = {
+  number: number
+  title: string
+  html_url: string
+  state: "open" | "closed"
+  labels: ({ name: string; color: string } | string)[]
+  assignee: RestUser
+  user: RestUser
+  comments: number
+  created_at: string
+  updated_at: string
+  body_html?: string
+  reactions?: RestReactions
+};
+
+type RestComment = {
+  id: number
+  user: RestUser
+  body_html?: string
+  created_at: string
+  html_url: string
+  reactions?: RestReactions
+};
+
+type RestReview = {
+  user: { login: string } | null
+  state: "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "DISMISSED" | "PENDING"
+};
+
+function toUser(user: RestUser): GithubUser | null {
+  return user ? { login: user.login, avatar_url: user.avatar_url } : null;
+}
+
+function reactionCounts(reactions: RestReactions | undefined): Reactions {
+  const counts: Reactions = {};
+  for (const content of REACTIONS) {
+    const count = reactions?.[content] ?? 0;
+    if (count > 0) counts[content] = count;
+  }
+  return counts;
+}
+
+function toIssueComment(comment: RestComment): IssueComment {
+  return {
+    id: comment.id,
+    author: toUser(comment.user),
+    bodyHtml: comment.body_html ?? "",
+    createdAt: comment.created_at,
+    url: comment.html_url,
+    reactions: reactionCounts(comment.reactions),
+  };
+}
+
+// Reviews arrive oldest first. A later comment does not undo an approval or change request;
+// a dismissal does.
+function summarizeReviews(reviews: RestReview[]): Pick<ReviewedPullRequest, "reviewState" | "reviewers"> {
+  const byReviewer = new Map<string, ReviewState>();
+  for (const review of reviews) {
+    const login = review.user?.login;
+    if (!login || review.state === "PENDING") continue;
+    if (review.state === "APPROVED" || review.state === "CHANGES_REQUESTED") {
+      byReviewer.set(login, review.state);
+    } else if (review.state === "DISMISSED" || !byReviewer.has(login)) {
+      byReviewer.set(login, "COMMENTED");
+    }
+  }
+
+  const reviewers = Array.from(byReviewer, ([login, state]) => ({ login, state }));
+  const states = new Set(byReviewer.values());
+  const reviewState: ReviewState = states.has("CHANGES_REQUESTED")
+    ? "CHANGES_REQUESTED"
+    : states.has("APPROVED")
+      ? "APPROVED"
+      : reviewers.length > 0
+        ? "COMMENTED"
+        : "NO_REVIEWS";
+  return { reviewState, reviewers };
+}
+
+async function withReviews(
+  pull: LinkedPullRequest,
+  token: string | null,
+  fresh: boolean
+): Promise<{ pull: ReviewedPullRequest; rateLimit: RateLimit | null }> {
+  const res = await cachedGithubFetch(
+    `/repos/${pull.repository}/pulls/${pull.number}/reviews?per_page=100`,
+    token,
+    { fresh }
+  );
+  const rateLimit = parseRateLimit(res.headers);
+  const reviews = res.ok ? await res.json() : [];
+  return { pull: { ...pull, ...summarizeReviews(Array.isArray(reviews) ? reviews : []) }, rateLimit };
+}
+
+async function linkedPullRequests(
+  owner: string,
+  repo: string,
+  number: number,
+  token: string | null,
+  fresh: boolean
+): Promise<{ pulls: LinkedPullRequest[]; rateLimit: RateLimit | null }> {
+  if (!token) return fetchLinkedPullRequestsFromTimeline(owner, repo, number, token, { fresh });
+  const { linked, rateLimit } = await fetchLinkedPullRequests(owner, repo, [number], token, { fresh });
+  return { pulls: linked.get(number) ?? [], rateLimit };
+}
+
+// Body and comments come pre-rendered by GitHub, linked pull requests with their review state
+export async function issueDetailResponse(
+  owner: string,
+  repo: string,
+  number: number,
+  token: string | null,
+  fresh: boolean
+): Promise<NextResponse<IssueDetailResponse | IssuesErrorResponse>> {
+  const issuePath = `/repos/${owner}/${repo}/issues/${number}`;
+  const issueRes = await cachedGithubFetch(issuePath, token, { fresh, accept: HTML_MEDIA_TYPE });
+  let rateLimit = parseRateLimit(issueRes.headers);
+
+  if (isRateLimited(issueRes)) {
+    return issuesErrorResponse("rate_limited", "GitHub API rate limit exceeded", 429, rateLimit);
+  }
+  if (!issueRes.ok) {
+    const message =
+      issueRes.status === 404
+        ? `Issue ${owner}/${repo}#${number} was not found, or the token cannot see it.`
+        : ((await issueRes.json().catch(() => null))?.message ?? `GitHub responded with ${issueRes.status}`);
+    return issuesErrorResponse(errorCodeForStatus(issueRes.status), message, issueRes.status, rateLimit);
+  }
+  const raw: RestIssue = await issueRes.json();
+
+  const [commentsRes, linked] = await Promise.all([
+    cachedGithubFetch(`${issuePath}/comments?per_page=100`, token, { fresh, accept: HTML_MEDIA_TYPE }),
+    linkedPullRequests(owner, repo, number, token, fresh),
+  ]);
+  rateLimit = lowestRateLimit(lowestRateLimit(rateLimit, parseRateLimit(commentsRes.headers)), linked.rateLimit);
+  const rawComments: RestComment[] = commentsRes.ok ? await commentsRes.json() : [];
+
+  const reviewed = await Promise.all(
+    linked.pulls.slice(0, MAX_REVIEWED_PULLS).map((pull) => withReviews(pull, token, fresh))
+  );
+  for (const result of reviewed) rateLimit = lowestRateLimit(rateLimit, result.rateLimit);
+
+  const issue: Issue = {
+    number: raw.number,
+    title: raw.title,
+    html_url: raw.html_url,
+    labels: raw.labels.map((label) =>
+      typeof label === "string" ? { name: label, color: "ededed" } : { name: label.name, color: label.color }
+    ),
+    assignee: toUser(raw.assignee),
+    comments: raw.comments,
+    updated_at: raw.updated_at,
+    state: raw.state,
+    linkedPullRequests: linked.pulls,
+    merged: isMerged(linked.pulls),
+  };
+
+  return NextResponse.json<IssueDetailResponse>({
+    detail: {
+      issue,
+      author: toUser(raw.user),
+      bodyHtml: raw.body_html ?? "",
+      createdAt: raw.created_at,
+      reactions: reactionCounts(raw.reactions),
+      comments: rawComments.map(toIssueComment),
+      moreComments: raw.comments > rawComments.length,
+      pullRequests: [
+        ...reviewed.map((result) => result.pull),
+        ...linked.pulls
+          .slice(MAX_REVIEWED_PULLS)
+          .map((pull) => ({ ...pull, reviewState: "NO_REVIEWS" as const, reviewers: [] })),
+      ],
+    },
+    rateLimit,
+  });
+}
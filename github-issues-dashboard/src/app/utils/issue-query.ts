@@ -0,0 +1,219 @@
+import type { Issue } from "@/app/types/github"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Inclusive bounds; numbers for `comments:`, epoch ms for `updated:`
+export type QueryRange = { min: number; max: number }
+
+export const IS_VALUES = ["assigned", "unassigned", "tracked", "untracked", "linked", "merged"] as const
+
+export type IsValue = (typeof IS_VALUES)[number]
+
+export type QueryTerm =
+  | { type: "text"; value: string; negated: boolean }
+  | { type: "label"; value: string; negated: boolean }
+  | { type: "assignee"; value: string; negated: boolean }
+  | { type: "is"; value: IsValue; negated: boolean }
+  | { type: "comments"; range: QueryRange; negated: boolean }
+  | { type: "updated"; range: QueryRange; negated: boolean }
+
+export type ParsedQuery = {
+  terms: QueryTerm[]
+  // One message per qualifier whose value could not be understood, e.g. "comments: expects a number"
+  errors: string[]
+}
+
+export type QueryContext = {
+  isTracked: (issue: Issue) => boolean
+}
+
+export type SavedSearch = {
+  name: string
+  query: string
+}
+
+export type QuerySuggestion = {
+  label: string
+  // The whole query with the suggestion applied
+  value: string
+}
+
+export const QUALIFIERS = ["label", "assignee", "is", "comments", "updated"] as const
+
+// `-`? `key:`? then a quoted or bare value, e.g. -label:"good first issue"
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// The span a single value covers: one number, or a whole UTC day for dates
+function valueSpan(raw: string, kind: "number" | "date"): QueryRange | null {
+  if (kind === "number") {
+    if (!/^\d+$/.test(raw)) return null
+    const value = Number(raw)
+    return { min: value, max: value }
+  }
+  if (!DATE_PATTERN.test(raw)) return null
+  const start = Date.parse(raw)
+  return Number.isNaN(start) ? null : { min: start, max: start + DAY_MS - 1 }
+}
+
+// Supports 5, >5, >=5, <5, <=5, 2..5, 2..* and *..5; dates work the same way
+export function parseRange(raw: string, kind: "number" | "date"): QueryRange | null {
+  if (raw.includes("..")) {
+    const [from, to] = raw.split("..")
+    const lower = from === "*" ? { min: -Infinity, max: -Infinity } : valueSpan(from, kind)
+    const upper = to === "*" ? { min: Infinity, max: Infinity } : valueSpan(to, kind)
+    return lower && upper ? { min: lower.min, max: upper.max } : null
+  }
+
+  const [, op, value] = raw.match(/^(>=|<=|>|<|=)?(.*)$/) ?? []
+  const span = valueSpan(value, kind)
+  if (!span) return null
+  switch (op) {
+    case ">":
+      return { min: span.max + 1, max: Infinity }
+    case ">=":
+      return { min: span.min, max: Infinity }
+    case "<":
+      return { min: -Infinity, max: span.min - 1 }
+    case "<=":
+      return { min: -Infinity, max: span.max }
+    default:
+      return span
+  }
+}
+
+// GitHub-style syntax, e.g. `label:bug -label:wontfix is:unassigned comments:>5 updated:<2026-09-01 crash`.
+// Unknown qualifiers are searched as plain text, the way GitHub treats them.
+export function parseQuery(input: string): ParsedQuery {
+  const terms: QueryTerm[] = []
+  const errors: string[] = []
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, rawKey, quoted, bare] = match
+    const negated = minus === "-"
+    const key = rawKey?.toLowerCase()
+    const value = (quoted ?? bare ?? "").trim()
+
+    if (!key || !(QUALIFIERS as readonly string[]).includes(key)) {
+      const text = key ? raw.slice(minus.length) : value
+      if (text) terms.push({ type: "text", value: text.replace(/"/g, "").toLowerCase(), negated })
+      continue
+    }
+    // A qualifier without a value is still being typed
+    if (!value) continue
+
+    switch (key) {
+      case "label":
+      case "assignee":
+        terms.push({ type: key, value: value.toLowerCase(), negated })
+        break
+      case "is":
+        if ((IS_VALUES as readonly string[]).includes(value.toLowerCase())) {
+          terms.push({ type: "is", value: value.toLowerCase() as IsValue, negated })
+        } else {
+          errors.push(`is: expects one of ${IS_VALUES.join(", ")}`)
+        }
+        break
+      case "comments":
+      case "updated": {
+        const range = parseRange(value, key === "comments" ? "number" : "date")
+        if (range) {
+          terms.push({ type: key, range, negated })
+        } else {
+          errors.push(key === "comments" ? "comments: expects a number such as >5 or 2..10" : "updated: expects a date such as <2026-09-01")
+        }
+        break
+      }
+    }
+  }
+
+  return { terms, errors }
+}
+
+function inRange(value: number, range: QueryRange): boolean {
+  return value >= range.min && value <= range.max
+}
+
+function matchesTerm(issue: Issue, term: QueryTerm, context: QueryContext): boolean {
+  switch (term.type) {
+    case "text":
+      return (
+        issue.title.toLowerCase().includes(term.value) ||
+        issue.labels.some((label) => label.name.toLowerCase().includes(term.value)) ||
+        String(issue.number).includes(term.value.replace(/^#/, ""))
+      )
+    case "label":
+      return issue.labels.some((label) => label.name.toLowerCase() === term.value)
+    case "assignee":
+      return issue.assignee?.login.toLowerCase() === term.value
+    case "is":
+      switch (term.value) {
+        case "assigned":
+          return issue.assignee !== null
+        case "unassigned":
+          return issue.assignee === null
+        case "tracked":
+          return context.isTracked(issue)
+        case "untracked":
+          return !context.isTracked(issue)
+        case "linked":
+          return (issue.linkedPullRequests?.length ?? 0) > 0
+        case "merged":
+          return Boolean(issue.merged)
+      }
+    case "comments":
+      return inRange(issue.comments, term.range)
+    case "updated":
+      return inRange(Date.parse(issue.updated_at), term.range)
+  }
+}
+
+// Every term must match (negated terms must not)
+export function matchesQuery(issue: Issue, query: ParsedQuery, context: QueryContext): boolean {
+  return query.terms.every((term) => matchesTerm(issue, term, context) !== term.negated)
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+// Suggestions for the token under the cursor (always the end of the input)
+export function completeQuery(
+  input: string,
+  known: { labels: string[]; assignees: string[] },
+  limit = 8,
+): QuerySuggestion[] {
+  const start = input.search(/\S*$/)
+  const before = input.slice(0, start)
+  const current = input.slice(start)
+  const minus = current.startsWith("-") ? "-" : ""
+  const token = current.slice(minus.length)
+  const colon = token.indexOf(":")
+
+  if (colon === -1) {
+    if (!token) return []
+    return QUALIFIERS.filter((qualifier) => qualifier.startsWith(token.toLowerCase()))
+      .slice(0, limit)
+      .map((qualifier) => ({ label: `${qualifier}:`, value: `${before}${minus}${qualifier}:` }))
+  }
+
+  const key = token.slice(0, colon).toLowerCase()
+  const partial = token.slice(colon + 1).replace(/^"/, "").toLowerCase()
+  const candidates =
+    key === "label" ? known.labels : key === "assignee" ? known.assignees : key === "is" ? [...IS_VALUES] : []
+
+  return candidates
+    .filter((candidate) => candidate.toLowerCase().startsWith(partial) && candidate.toLowerCase() !== partial)
+    .slice(0, limit)
+    .map((candidate) => ({ label: `${key}:${candidate}`, value: `${before}${minus}${key}:${quote(candidate)} ` }))
+}
+
+export function knownLabels(issues: Issue[]): string[] {
+  return Array.from(new Set(issues.flatMap((issue) => issue.labels.map((label) => label.name)))).sort()
+}
+
+export function knownAssignees(issues: Issue[]): string[] {
+  return Array.from(
+    new Set(issues.flatMap((issue) => (issue.assignee ? [issue.assignee.login] : []))),
+  ).sort()
+}
@@ -0,0 +1,280 @@
+import type { Milestone } from "@/app/types/github"
+import type {
+  MilestoneDefinition,
+  PeriodBounds,
+  PeriodDefinition,
+  PeriodKind,
+  SprintCadenceDefinition,
+} from "@/app/types/period"
+import { formatMonthYear, getCurrentMonthYear, shiftMonth } from "@/app/utils/helpers"
+
+// Period keys are what tracked issues store: "2026-10" for a month, "range:<id>", "sprint:<id>:<n>"
+// for the n-th sprint of a cadence and "milestone:<id>"
+const MONTH_KEY = /^\d{4}-(0[1-9]|1[0-2])$/
+const DEFINED_KEY = /^(range|milestone):([\w-]+)$/
+const SPRINT_KEY = /^sprint:([\w-]+):([1-9]\d*)$/
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Sprints listed before the current one; older ones still show up once something is tracked in them
+const PAST_SPRINTS_LISTED = 12
+
+export type ParsedPeriodKey =
+  | { kind: "month"; month: string }
+  | { kind: "range" | "milestone"; id: string }
+  | { kind: "sprint"; id: string; index: number }
+
+export const PERIOD_KIND_LABELS: Record<PeriodKind, string> = {
+  month: "Months",
+  sprint: "Sprints",
+  range: "Date ranges",
+  milestone: "Milestones",
+}
+
+export function parsePeriodKey(key: string): ParsedPeriodKey | null {
+  if (MONTH_KEY.test(key)) return { kind: "month", month: key }
+  const sprint = SPRINT_KEY.exec(key)
+  if (sprint) return { kind: "sprint", id: sprint[1], index: Number(sprint[2]) }
+  const defined = DEFINED_KEY.exec(key)
+  if (defined) return { kind: defined[1] as "range" | "milestone", id: defined[2] }
+  return null
+}
+
+export function isPeriodKey(value: unknown): value is string {
+  return typeof value === "string" && parsePeriodKey(value) !== null
+}
+
+export function periodKind(key: string): PeriodKind | null {
+  return parsePeriodKey(key)?.kind ?? null
+}
+
+// `index` picks the sprint of a cadence and is ignored for other kinds
+export function periodKey(definition: PeriodDefinition, index = 1): string {
+  return definition.kind === "sprint" ? `sprint:${definition.id}:${index}` : `${definition.kind}:${definition.id}`
+}
+
+export function newPeriodId(): string {
+  return Date.now().toString(36)
+}
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+// Today in the browser's time zone, the same way getCurrentMonthYear picks the month
+export function localDay(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+function definitionFor(parsed: ParsedPeriodKey, definitions: PeriodDefinition[]): PeriodDefinition | undefined {
+  if (parsed.kind === "month") return undefined
+  return definitions.find((definition) => definition.kind === parsed.kind && definition.id === parsed.id)
+}
+
+// Null for malformed keys and for periods whose definition has been deleted
+export function periodBounds(key: string, definitions: PeriodDefinition[]): PeriodBounds | null {
+  const parsed = parsePeriodKey(key)
+  if (!parsed) return null
+  if (parsed.kind === "month") {
+    return { start: `${parsed.month}-01`, end: addDays(`${shiftMonth(parsed.month, 1)}-01`, -1) }
+  }
+
+  const definition = definitionFor(parsed, definitions)
+  switch (definition?.kind) {
+    case "range":
+      return { start: definition.start, end: definition.end }
+    case "sprint": {
+      const index = parsed.kind === "sprint" ? parsed.index : 1
+      const start = addDays(definition.start, (index - 1) * definition.lengthDays)
+      return { start, end: addDays(start, definition.lengthDays - 1) }
+    }
+    case "milestone":
+      return { start: definition.start, end: definition.dueOn }
+    default:
+      return null
+  }
+}
+
+export function formatPeriod(key: string, definitions: PeriodDefinition[]): string {
+  const parsed = parsePeriodKey(key)
+  if (!parsed) return key
+  if (parsed.kind === "month") return formatMonthYear(parsed.month)
+
+  const definition = definitionFor(parsed, definitions)
+  switch (definition?.kind) {
+    case "range":
+      return definition.name
+    case "sprint":
+      return `${definition.name} ${parsed.kind === "sprint" ? parsed.index : 1}`
+    case "milestone":
+      return definition.title
+    default:
+      return `Deleted ${parsed.kind}`
+  }
+}
+
+// Compact label for chart axes, e.g. "Oct 26"
+export function shortPeriodLabel(key: string, definitions: PeriodDefinition[]): string {
+  const parsed = parsePeriodKey(key)
+  if (parsed?.kind !== "month") return formatPeriod(key, definitions)
+  const [year, month] = parsed.month.split("-").map(Number)
+  return new Date(year, month - 1).toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+}
+
+// "Oct 1, 2026" for a "2026-10-01" day
+export function formatDay(day: string, withYear = true): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: withYear ? "numeric" : undefined,
+    timeZone: "UTC",
+  })
+}
+
+// "Oct 1 – Oct 14, 2026"; empty when the period has no known dates
+export function formatPeriodDates(key: string, definitions: PeriodDefinition[]): string {
+  const bounds = periodBounds(key, definitions)
+  if (!bounds) return ""
+  if (!bounds.end) return `From ${formatDay(bounds.start)}`
+  return `${formatDay(bounds.start, bounds.start.slice(0, 4) !== bounds.end.slice(0, 4))} – ${formatDay(bounds.end)}`
+}
+
+// 0 while the cadence has not started yet
+function sprintIndexOn(cadence: SprintCadenceDefinition, day: string): number {
+  const elapsed = daysBetween(cadence.start, day)
+  return elapsed < 0 ? 0 : Math.floor(elapsed / cadence.lengthDays) + 1
+}
+
+// Where unfinished work is carried over to: the following month or sprint, or the next range or
+// milestone (of the same repo) in date order. Null when nothing follows.
+export function nextPeriod(key: string, definitions: PeriodDefinition[]): string | null {
+  const parsed = parsePeriodKey(key)
+  if (!parsed) return null
+  if (parsed.kind === "month") return shiftMonth(parsed.month, 1)
+
+  const current = definitionFor(parsed, definitions)
+  if (!current) return null
+  if (current.kind === "sprint") return periodKey(current, (parsed.kind === "sprint" ? parsed.index : 1) + 1)
+
+  const orderOf = (definition: PeriodDefinition) =>
+    definition.kind === "milestone" ? (definition.dueOn ?? "9999-12-31") : definition.start
+  const following = definitions
+    .filter(
+      (definition) =>
+        definition.kind === current.kind &&
+        definition.id !== current.id &&
+        (definition.kind !== "milestone" || definition.repoKey === (current as MilestoneDefinition).repoKey) &&
+        orderOf(definition) > orderOf(current),
+    )
+    .sort((a, b) => orderOf(a).localeCompare(orderOf(b)))
+  return following.length > 0 ? periodKey(following[0]) : null
+}
+
+// Newest first by start date; keys whose definition was deleted go last
+export function sortPeriods(keys: string[], definitions: PeriodDefinition[]): string[] {
+  const starts = new Map(Array.from(new Set(keys), (key) => [key, periodBounds(key, definitions)]))
+  return Array.from(starts.keys()).sort((a, b) => {
+    const boundsA = starts.get(a)
+    const boundsB = starts.get(b)
+    if (!boundsA || !boundsB) return Number(!boundsA) - Number(!boundsB) || b.localeCompare(a)
+    return (
+      boundsB.start.localeCompare(boundsA.start) ||
+      (boundsB.end ?? "").localeCompare(boundsA.end ?? "") ||
+      b.localeCompare(a)
+    )
+  })
+}
+
+// Periods offered in the selectors: everything that has tracked issues, the current month and
+// every defined period. Sprints are listed up to the one after the current sprint.
+export function availablePeriods(
+  listed: string[],
+  definitions: PeriodDefinition[],
+  day: string = localDay(),
+): string[] {
+  const keys = [...listed, getCurrentMonthYear()]
+  for (const definition of definitions) {
+    if (definition.kind !== "sprint") {
+      keys.push(periodKey(definition))
+      continue
+    }
+    const current = sprintIndexOn(definition, day)
+    for (let index = Math.max(1, current - PAST_SPRINTS_LISTED); index <= current + 1; index++) {
+      keys.push(periodKey(definition, index))
+    }
+  }
+  return sortPeriods(keys, definitions)
+}
+
+export function milestoneDefinition(repoKey: string, milestone: Milestone): MilestoneDefinition {
+  return {
+    kind: "milestone",
+    id: String(milestone.id),
+    repoKey,
+    number: milestone.number,
+    title: milestone.title,
+    start: milestone.created_at.slice(0, 10),
+    dueOn: milestone.due_on?.slice(0, 10) ?? null,
+  }
+}
+
+function isDay(value: unknown): value is string {
+  return typeof value === "string" && DAY.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && /^[\w-]+$/.test(value)
+}
+
+// Drops malformed definitions from localStorage or an older version of the dashboard
+export function sanitizePeriodDefinitions(value: unknown): PeriodDefinition[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((definition): definition is PeriodDefinition => {
+    if (typeof definition !== "object" || definition === null || !isId(definition.id)) return false
+    switch (definition.kind) {
+      case "range":
+        return typeof definition.name === "string" && isDay(definition.start) && isDay(definition.end)
+      case "sprint":
+        return (
+          typeof definition.name === "string" &&
+          isDay(definition.start) &&
+          Number.isInteger(definition.lengthDays) &&
+          definition.lengthDays > 0
+        )
+      case "milestone":
+        return (
+          typeof definition.repoKey === "string" &&
+          Number.isInteger(definition.number) &&
+          typeof definition.title === "string" &&
+          isDay(definition.start) &&
+          (definition.dueOn === null || isDay(definition.dueOn))
+        )
+      default:
+        return false
+    }
+  })
+}
+
+// Records saved before custom periods kept the month in `monthYear` and logged moves as "month" history
+export function migrateLegacyPeriod<T extends object>(record: T): T {
+  const legacy = record as T & { monthYear?: unknown; period?: unknown; history?: unknown }
+  const hasLegacyHistory =
+    Array.isArray(legacy.history) && legacy.history.some((entry) => entry?.field === "month")
+  if (!("monthYear" in legacy) && !hasLegacyHistory) return record
+
+  const { monthYear, ...rest } = legacy
+  const migrated: Record<string, unknown> = { ...rest, period: legacy.period ?? monthYear }
+  if (hasLegacyHistory) {
+    migrated.history = (legacy.history as { field?: unknown }[]).map((entry) =>
+      entry?.field === "month" ? { ...entry, field: "period" } : entry,
+    )
+  }
+  return migrated as T
+}
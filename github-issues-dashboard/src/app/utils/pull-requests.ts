@@ -0,0 +1,174 @@
+import type { LinkedPullRequest, PullRequestState, RateLimit } from "@/app/types/github";
+import { cachedGithubFetch, githubGraphQL, parseRateLimit } from "@/app/utils/github";
+
+type GraphQLPullRequest = {
+  number: number
+  title: string
+  url: string
+  state: PullRequestState
+  author: { login: string } | null
+  repository: { nameWithOwner: string }
+}
+
+type GraphQLIssueLinks = {
+  closedByPullRequestsReferences: { nodes: (GraphQLPullRequest | null)[] }
+  timelineItems: {
+    nodes: ({
+      willCloseTarget?: boolean
+      source?: Partial<GraphQLPullRequest>
+      subject?: Partial<GraphQLPullRequest>
+    } | null)[]
+  }
+}
+
+type TimelineEvent = {
+  event: string
+  commit_url?: string | null
+  commit_id?: string | null
+  source?: {
+    issue?: {
+      number: number
+      title: string
+      html_url: string
+      state: "open" | "closed"
+      user: { login: string } | null
+      repository?: { full_name: string }
+      pull_request?: { merged_at: string | null }
+    }
+  }
+}
+
+const LINKED_PULLS_QUERY_FRAGMENTS = `
+fragment Pull on PullRequest {
+  number
+  title
+  url
+  state
+  author { login }
+  repository { nameWithOwner }
+}
+
+fragment LinkedPulls on Issue {
+  closedByPullRequestsReferences(first: 10, includeClosedPrs: true) {
+    nodes { ...Pull }
+  }
+  timelineItems(first: 25, itemTypes: [CROSS_REFERENCED_EVENT, CONNECTED_EVENT]) {
+    nodes {
+      ... on CrossReferencedEvent { willCloseTarget source { ...Pull } }
+      ... on ConnectedEvent { subject { ...Pull } }
+    }
+  }
+}`;
+
+function toLinkedPullRequest(pr: GraphQLPullRequest, closesIssue: boolean): LinkedPullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    url: pr.url,
+    state: pr.state,
+    author: pr.author?.login ?? null,
+    repository: pr.repository.nameWithOwner,
+    closesIssue,
+  };
+}
+
+// Union-style fragments come back as empty objects for non-PR sources (e.g. issues)
+function isPullRequest(node: Partial<GraphQLPullRequest> | undefined | null): node is GraphQLPullRequest {
+  return !!node && typeof node.number === "number" && !!node.url;
+}
+
+function dedupe(pulls: LinkedPullRequest[]): LinkedPullRequest[] {
+  const byUrl = new Map<string, LinkedPullRequest>();
+  for (const pr of pulls) {
+    const existing = byUrl.get(pr.url);
+    byUrl.set(pr.url, existing ? { ...existing, closesIssue: existing.closesIssue || pr.closesIssue } : pr);
+  }
+  return Array.from(byUrl.values()).sort((a, b) => a.number - b.number);
+}
+
+// Only a PR that closes the issue counts; one that merely mentions it may be merged long before the fix
+export function isMerged(pulls: LinkedPullRequest[]): boolean {
+  return pulls.some((pr) => pr.state === "MERGED" && pr.closesIssue);
+}
+
+// Resolves linked pull requests for every issue on a page with one aliased GraphQL query
+export async function fetchLinkedPullRequests(
+  owner: string,
+  repo: string,
+  issueNumbers: number[],
+  token: string,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<{ linked: Map<number, LinkedPullRequest[]>; errors: string[]; rateLimit: RateLimit | null }> {
+  const linked = new Map<number, LinkedPullRequest[]>();
+  if (issueNumbers.length === 0) return { linked, errors: [], rateLimit: null };
+
+  const aliases = issueNumbers.map((n) => `i${n}: issue(number: ${n}) { ...LinkedPulls }`).join("\n    ");
+  const query = `query ($owner: String!, $repo: String!) {
+  repository(owner: $owner, name: $repo) {
+    ${aliases}
+  }
+}
+${LINKED_PULLS_QUERY_FRAGMENTS}`;
+
+  const { data, errors, rateLimit } = await githubGraphQL<{
+    repository: Record<string, GraphQLIssueLinks | null> | null
+  }>(query, { owner, repo }, token, { fresh });
+
+  for (const number of issueNumbers) {
+    const node = data?.repository?.[`i${number}`];
+    if (!node) continue;
+
+    const pulls: LinkedPullRequest[] = [];
+    for (const pr of node.closedByPullRequestsReferences.nodes) {
+      if (isPullRequest(pr)) pulls.push(toLinkedPullRequest(pr, true));
+    }
+    for (const item of node.timelineItems.nodes) {
+      if (!item) continue;
+      if (isPullRequest(item.source)) pulls.push(toLinkedPullRequest(item.source, !!item.willCloseTarget));
+      if (isPullRequest(item.subject)) pulls.push(toLinkedPullRequest(item.subject, false));
+    }
+    linked.set(number, dedupe(pulls));
+  }
+
+  return { linked, errors, rateLimit };
+}
+
+// Anonymous fallback: one REST timeline request per issue, since GraphQL needs a token
+export async function fetchLinkedPullRequestsFromTimeline(
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  token: string | null,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<{ pulls: LinkedPullRequest[]; merged: boolean; rateLimit: RateLimit | null }> {
+  const res = await cachedGithubFetch(
+    `/repos/${owner}/${repo}/issues/${issueNumber}/timeline?per_page=100`,
+    token,
+    { fresh }
+  );
+  const rateLimit = parseRateLimit(res.headers);
+  if (!res.ok) return { pulls: [], merged: false, rateLimit };
+
+  const timeline = await res.json();
+  const events: TimelineEvent[] = Array.isArray(timeline) ? timeline : [];
+
+  const pulls: LinkedPullRequest[] = [];
+  for (const event of events) {
+    const source = event.source?.issue;
+    if (event.event !== "cross-referenced" || !source?.pull_request) continue;
+    pulls.push({
+      number: source.number,
+      title: source.title,
+      url: source.html_url,
+      state: source.pull_request.merged_at ? "MERGED" : source.state === "open" ? "OPEN" : "CLOSED",
+      author: source.user?.login ?? null,
+      repository: source.repository?.full_name ?? `${owner}/${repo}`,
+      closesIssue: false,
+    });
+  }
+
+  // A "merged" event carrying a commit means a PR closed this issue on merge
+  const mergedEvent = events.some((event) => event.event === "merged" && event.commit_url && event.commit_id);
+  const deduped = dedupe(pulls);
+  return { pulls: deduped, merged: mergedEvent || isMerged(deduped), rateLimit };
+}
@@ -0,0 +1,163 @@
+import type { TrackedIssue } from "@/app/types/contributor"
+
+// A stored value that could not be read back, kept so it can be inspected or recovered by hand
+export type QuarantinedRecord = {
+  // Where it came from, e.g. "trackedIssues" or "localStorage:savedRepos"
+  source: string
+  raw: unknown
+  reasons: string[]
+  at: string
+}
+
+// Where the browser keeps tracked issues and quarantined records. Records are returned as stored,
+// without validation, so that corrupt ones can be set aside by the caller.
+export interface RecordStore {
+  readonly kind: "indexeddb" | "localStorage"
+  loadTrackedIssues(): Promise<unknown[]>
+  saveTrackedIssues(issues: TrackedIssue[]): Promise<void>
+  addToQuarantine(records: QuarantinedRecord[]): Promise<void>
+  loadQuarantine(): Promise<QuarantinedRecord[]>
+  clearQuarantine(): Promise<void>
+  clear(): Promise<void>
+}
+
+const DATABASE_NAME = "github-issues-dashboard"
+const DATABASE_VERSION = 1
+const TRACKED_ISSUES = "trackedIssues"
+const QUARANTINE = "quarantine"
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"))
+  })
+}
+
+// Tracked issues are keyed by repo and number, so saving a list replaces each issue in place
+export class IndexedDbRecordStore implements RecordStore {
+  readonly kind = "indexeddb"
+
+  constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbRecordStore> {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(TRACKED_ISSUES)) {
+        db.createObjectStore(TRACKED_ISSUES, { keyPath: ["repoKey", "number"] })
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE)) {
+        db.createObjectStore(QUARANTINE, { autoIncrement: true })
+      }
+    }
+    return new IndexedDbRecordStore(await requestResult(request))
+  }
+
+  async loadTrackedIssues() {
+    return requestResult(this.db.transaction(TRACKED_ISSUES).objectStore(TRACKED_ISSUES).getAll())
+  }
+
+  // One transaction, so a failed write leaves the previous list intact. `put` throws synchronously for a
+  // record without a valid key, which does not abort the transaction by itself.
+  async saveTrackedIssues(issues: TrackedIssue[]) {
+    const transaction = this.db.transaction(TRACKED_ISSUES, "readwrite")
+    const done = transactionDone(transaction)
+    try {
+      const store = transaction.objectStore(TRACKED_ISSUES)
+      store.clear()
+      for (const issue of issues) store.put(issue)
+    } catch (error) {
+      transaction.abort()
+      await done.catch(() => {})
+      throw error
+    }
+    await done
+  }
+
+  async addToQuarantine(records: QuarantinedRecord[]) {
+    const transaction = this.db.transaction(QUARANTINE, "readwrite")
+    for (const record of records) transaction.objectStore(QUARANTINE).add(record)
+    await transactionDone(transaction)
+  }
+
+  async loadQuarantine() {
+    return requestResult(this.db.transaction(QUARANTINE).objectStore(QUARANTINE).getAll())
+  }
+
+  async clearQuarantine() {
+    const transaction = this.db.transaction(QUARANTINE, "readwrite")
+    transaction.objectStore(QUARANTINE).clear()
+    await transactionDone(transaction)
+  }
+
+  async clear() {
+    const transaction = this.db.transaction([TRACKED_ISSUES, QUARANTINE], "readwrite")
+    transaction.objectStore(TRACKED_ISSUES).clear()
+    transaction.objectStore(QUARANTINE).clear()
+    await transactionDone(transaction)
+  }
+}
+
+// For browsers without IndexedDB, e.g. some private modes; subject to localStorage's size limit
+export class LocalStorageRecordStore implements RecordStore {
+  readonly kind = "localStorage"
+
+  private read(key: string): unknown[] {
+    const item = localStorage.getItem(key)
+    if (item === null) return []
+    const value = JSON.parse(item)
+    if (!Array.isArray(value)) throw new Error(`${key} is not a list`)
+    return value
+  }
+
+  async loadTrackedIssues() {
+    return this.read(TRACKED_ISSUES)
+  }
+
+  async saveTrackedIssues(issues: TrackedIssue[]) {
+    localStorage.setItem(TRACKED_ISSUES, JSON.stringify(issues))
+  }
+
+  async addToQuarantine(records: QuarantinedRecord[]) {
+    localStorage.setItem(QUARANTINE, JSON.stringify([...(await this.loadQuarantine()), ...records]))
+  }
+
+  async loadQuarantine() {
+    try {
+      return this.read(QUARANTINE) as QuarantinedRecord[]
+    } catch {
+      return []
+    }
+  }
+
+  async clearQuarantine() {
+    localStorage.removeItem(QUARANTINE)
+  }
+
+  async clear() {
+    localStorage.removeItem(TRACKED_ISSUES)
+    localStorage.removeItem(QUARANTINE)
+  }
+}
+
+let store: Promise<RecordStore> | null = null
+
+// IndexedDB when the browser lets us open it, localStorage otherwise
+export function getRecordStore(): Promise<RecordStore> {
+  if (!store) {
+    store = (typeof indexedDB === "undefined" ? Promise.reject(new Error("IndexedDB unavailable")) : IndexedDbRecordStore.open())
+      .catch((error): RecordStore => {
+        console.warn("IndexedDB unavailable, keeping tracked issues in localStorage:", error)
+        return new LocalStorageRecordStore()
+      })
+  }
+  return store
+}
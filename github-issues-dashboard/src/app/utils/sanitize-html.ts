@@ -0,0 +1,102 @@
+// Allowlist sanitizer for the Markdown GitHub renders. GitHub already filters its output,
+// but the HTML passes through our server, so it is checked again before it reaches innerHTML.
+
+// Tags kept as they are; the attributes each may carry are listed alongside
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ["href", "title"],
+  b: [],
+  blockquote: [],
+  br: [],
+  code: [],
+  del: [],
+  details: ["open"],
+  div: [],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ["src", "alt", "title", "width", "height"],
+  input: ["type", "checked", "disabled"],
+  kbd: [],
+  li: [],
+  ol: ["start"],
+  p: [],
+  pre: [],
+  s: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ["align"],
+  th: ["align"],
+  thead: [],
+  tr: [],
+  ul: [],
+}
+
+// Dropped together with their content; any other unknown tag is unwrapped and its text kept
+const DROPPED_TAGS = new Set(["script", "style", "iframe", "object", "embed", "form", "textarea", "select", "button"])
+
+const URL_ATTRIBUTES = new Set(["href", "src"])
+
+function isSafeUrl(value: string): boolean {
+  try {
+    return ["http:", "https:", "mailto:"].includes(new URL(value, "https://github.com").protocol)
+  } catch {
+    return false
+  }
+}
+
+function cleanElement(element: Element): void {
+  const tag = element.tagName.toLowerCase()
+  const allowed = ALLOWED_TAGS[tag] ?? []
+  for (const attribute of Array.from(element.attributes)) {
+    const keep = allowed.includes(attribute.name) && (!URL_ATTRIBUTES.has(attribute.name) || isSafeUrl(attribute.value))
+    if (!keep) element.removeAttribute(attribute.name)
+  }
+  // Task list checkboxes are the only inputs GitHub renders, and they are read-only here
+  if (tag === "input") {
+    if (element.getAttribute("type") !== "checkbox") element.remove()
+    else element.setAttribute("disabled", "")
+  }
+  if (tag === "a") {
+    element.setAttribute("target", "_blank")
+    element.setAttribute("rel", "noopener noreferrer nofollow")
+  }
+}
+
+function cleanChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove()
+      continue
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) continue
+
+    const element = child as Element
+    const tag = element.tagName.toLowerCase()
+    cleanChildren(element)
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove()
+    } else if (ALLOWED_TAGS[tag]) {
+      cleanElement(element)
+    } else {
+      element.replaceWith(...Array.from(element.childNodes))
+    }
+  }
+}
+
+// Browser-only: parses with DOMParser, which never runs scripts or loads resources
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html")
+  cleanChildren(doc.body)
+  return doc.body.innerHTML
+}
@@ -0,0 +1,275 @@
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import { repoKeyOf } from "@/app/utils/helpers"
+import { migrateLegacyPeriod, sanitizePeriodDefinitions } from "@/app/utils/periods"
+import { getRecordStore, type QuarantinedRecord, type RecordStore } from "@/app/utils/record-store"
+import { validateTrackedIssue } from "@/app/utils/tracking-export"
+
+// Settings stay in localStorage; tracked issues, which carry whole GitHub issues, live in the record store.
+// Bump STORAGE_VERSION with a new migration whenever the stored shape changes.
+export const STORAGE_VERSION = 3
+
+const VERSION_KEY = "storageVersion"
+
+type StorageMigration = {
+  version: number
+  description: string
+  // Resolves to false when the step cannot run in this browser yet; it is retried on the next load
+  run: (store: RecordStore) => Promise<boolean | void>
+}
+
+function quarantineLater(records: QuarantinedRecord[]) {
+  getRecordStore()
+    .then((store) => store.addToQuarantine(records))
+    .catch((error) => console.error("Failed to quarantine unreadable data:", error))
+}
+
+function quarantineRecord(source: string, raw: unknown, reason: string): QuarantinedRecord {
+  return { source, raw, reasons: [reason], at: new Date().toISOString() }
+}
+
+// Unparseable values are moved to the quarantine and removed, so they are reported once rather than on every load
+function readJson(key: string): { found: boolean; value: unknown } {
+  const item = localStorage.getItem(key)
+  if (item === null) return { found: false, value: undefined }
+  try {
+    return { found: true, value: JSON.parse(item) }
+  } catch (error) {
+    console.warn(`Quarantined unreadable localStorage value "${key}":`, error)
+    quarantineLater([quarantineRecord(`localStorage:${key}`, item, "Not valid JSON")])
+    localStorage.removeItem(key)
+    return { found: false, value: undefined }
+  }
+}
+
+function updateLegacyTrackedIssues(change: (records: unknown[]) => unknown[]) {
+  const { found, value } = readJson("trackedIssues")
+  if (!found) return
+  if (!Array.isArray(value)) {
+    quarantineLater([quarantineRecord("localStorage:trackedIssues", value, "Not a list of tracked issues")])
+    localStorage.removeItem("trackedIssues")
+    return
+  }
+  localStorage.setItem("trackedIssues", JSON.stringify(change(value)))
+}
+
+function validateRecords(records: unknown[], source: string) {
+  const trackedIssues: TrackedIssue[] = []
+  const rejected: QuarantinedRecord[] = []
+  const at = new Date().toISOString()
+  records.forEach((record, index) => {
+    const errors: string[] = []
+    const issue = validateTrackedIssue(record, `Record ${index + 1}`, errors)
+    if (issue) {
+      trackedIssues.push(issue)
+    } else {
+      rejected.push({ source, raw: record, reasons: errors, at })
+    }
+  })
+  return { trackedIssues, rejected }
+}
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: "Issues tracked before multi-repo support belong to whichever repo was loaded at the time",
+    run: async () => {
+      const owner = readJson("repoOwner").value
+      const repo = readJson("repoName").value
+      const legacyRepoKey = repoKeyOf(typeof owner === "string" ? owner : "", typeof repo === "string" ? repo : "")
+      updateLegacyTrackedIssues((records) =>
+        records.map((record) =>
+          typeof record === "object" && record !== null && !("repoKey" in record)
+            ? { ...record, repoKey: legacyRepoKey }
+            : record,
+        ),
+      )
+    },
+  },
+  {
+    version: 2,
+    description: "Calendar months become tracking periods",
+    run: async () => {
+      updateLegacyTrackedIssues((records) =>
+        records.map((record) => (typeof record === "object" && record !== null ? migrateLegacyPeriod(record) : record)),
+      )
+      const selectedMonth = localStorage.getItem("selectedMonth")
+      if (selectedMonth !== null && localStorage.getItem("selectedPeriod") === null) {
+        localStorage.setItem("selectedPeriod", selectedMonth)
+      }
+      localStorage.removeItem("selectedMonth")
+    },
+  },
+  {
+    version: 3,
+    description: "Tracked issues move from localStorage to IndexedDB",
+    run: async (store) => {
+      // Without IndexedDB the record store already reads the localStorage list
+      if (store.kind !== "indexeddb") return false
+      const { found, value } = readJson("trackedIssues")
+      if (found && Array.isArray(value)) {
+        // IndexedDB refuses records without a valid [repoKey, number] key, so invalid ones are set aside first
+        const { trackedIssues, rejected } = validateRecords(value, "localStorage:trackedIssues")
+        if (rejected.length > 0) await store.addToQuarantine(rejected)
+        await store.saveTrackedIssues(trackedIssues)
+      }
+      localStorage.removeItem("trackedIssues")
+    },
+  },
+]
+
+function storedVersion(): number {
+  const version = Number(localStorage.getItem(VERSION_KEY) ?? 0)
+  return Number.isInteger(version) && version >= 0 ? version : 0
+}
+
+let migrating: Promise<void> | null = null
+
+// Runs once per page load; a step that fails or cannot run yet stops the chain so it is retried later
+function runMigrations(store: RecordStore): Promise<void> {
+  if (!migrating) {
+    migrating = (async () => {
+      for (const migration of MIGRATIONS) {
+        if (migration.version <= storedVersion()) continue
+        try {
+          if ((await migration.run(store)) === false) return
+        } catch (error) {
+          console.error(`Storage migration ${migration.version} (${migration.description}) failed:`, error)
+          return
+        }
+        localStorage.setItem(VERSION_KEY, String(migration.version))
+      }
+    })()
+  }
+  return migrating
+}
+
+export type StoredData = {
+  trackedIssues: TrackedIssue[]
+  // Everything set aside so far, including records quarantined on earlier loads
+  quarantined: QuarantinedRecord[]
+}
+
+// Migrates older data, then loads tracked issues; records that fail validation are quarantined, not dropped
+export async function openStorage(): Promise<StoredData> {
+  const store = await getRecordStore()
+  await runMigrations(store)
+
+  let records: unknown[] = []
+  try {
+    records = await store.loadTrackedIssues()
+  } catch (error) {
+    console.error("Failed to load tracked issues:", error)
+    if (store.kind === "localStorage") {
+      await store.addToQuarantine([
+        quarantineRecord("trackedIssues", localStorage.getItem("trackedIssues"), "Not a list of tracked issues"),
+      ])
+      localStorage.removeItem("trackedIssues")
+    }
+  }
+
+  const { trackedIssues, rejected } = validateRecords(records, "trackedIssues")
+  if (rejected.length > 0) {
+    console.warn(`Quarantined ${rejected.length} unreadable tracked issues`)
+    await store.addToQuarantine(rejected)
+    await store.saveTrackedIssues(trackedIssues)
+  }
+
+  return { trackedIssues, quarantined: await store.loadQuarantine() }
+}
+
+// What the dashboard starts from when storage cannot be opened, e.g. over quota; the stored data is left alone
+// and reported through the recovery banner
+export function unavailableStorage(error: unknown): StoredData {
+  console.error("Failed to open browser storage:", error)
+  const reason = error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+  return {
+    trackedIssues: [],
+    quarantined: [
+      quarantineRecord(
+        "trackedIssues",
+        null,
+        `Saved tracked issues could not be opened and were left untouched (${reason})`,
+      ),
+    ],
+  }
+}
+
+export async function saveTrackedIssues(issues: TrackedIssue[]) {
+  try {
+    await (await getRecordStore()).saveTrackedIssues(issues)
+  } catch (error) {
+    console.error("Failed to save tracked issues:", error)
+  }
+}
+
+export async function clearQuarantine() {
+  await (await getRecordStore()).clearQuarantine()
+}
+
+export async function clearStoredRecords() {
+  await (await getRecordStore()).clear()
+}
+
+export function saveToLocalStorage(key: string, data: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(data))
+  } catch (error) {
+    console.error("Failed to save to localStorage:", error)
+  }
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === "string"
+}
+
+export function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString)
+}
+
+// `isValid` rejects values of the wrong shape; those are quarantined like unparseable ones and the default is used
+export function loadFromLocalStorage<T>(key: string, defaultValue: T, isValid?: (value: unknown) => value is T): T {
+  const { found, value } = readJson(key)
+  if (!found) return defaultValue
+  if (isValid && !isValid(value)) {
+    console.warn(`Quarantined localStorage value "${key}" of an unexpected shape`)
+    quarantineLater([quarantineRecord(`localStorage:${key}`, value, "Unexpected shape")])
+    localStorage.removeItem(key)
+    return defaultValue
+  }
+  return value as T
+}
+
+const TOKEN_KEY = "githubToken"
+const REMEMBER_TOKEN_KEY = "rememberGithubToken"
+
+// The GitHub token stays in sessionStorage, gone when the tab closes, unless the user opts in to keeping it in
+// localStorage. A token saved before that choice existed moves to the session instead of staying on disk.
+export function loadGithubToken(): { token: string; remember: boolean } {
+  const isBoolean = (value: unknown): value is boolean => typeof value === "boolean"
+  const remember = loadFromLocalStorage(REMEMBER_TOKEN_KEY, false, isBoolean)
+  const saved = loadFromLocalStorage(TOKEN_KEY, "", isString)
+  if (remember) return { token: saved, remember }
+  if (saved) localStorage.removeItem(TOKEN_KEY)
+  return { token: sessionStorage.getItem(TOKEN_KEY) ?? saved, remember }
+}
+
+export function saveGithubToken(token: string, remember: boolean) {
+  try {
+    saveToLocalStorage(REMEMBER_TOKEN_KEY, remember)
+    if (remember) {
+      saveToLocalStorage(TOKEN_KEY, token)
+      sessionStorage.removeItem(TOKEN_KEY)
+    } else {
+      localStorage.removeItem(TOKEN_KEY)
+      if (token) sessionStorage.setItem(TOKEN_KEY, token)
+      else sessionStorage.removeItem(TOKEN_KEY)
+    }
+  } catch (error) {
+    console.error("Failed to save the GitHub token:", error)
+  }
+}
+
+export function loadPeriodDefinitions(): PeriodDefinition[] {
+  return sanitizePeriodDefinitions(loadFromLocalStorage<unknown>("trackingPeriods", []))
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from "events";
+import type { TrackedIssue } from "@/app/types/contributor";
+
+type TrackingListener = (issues: TrackedIssue[]) => void;
+
+const EVENT = "tracking";
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one emitter.
+// Subscribers only hear about changes made by this server process.
+const globalForEvents = globalThis as typeof globalThis & { trackingEvents?: EventEmitter };
+const emitter = globalForEvents.trackingEvents ?? new EventEmitter();
+emitter.setMaxListeners(0);
+globalForEvents.trackingEvents = emitter;
+
+export function publishTrackingUpdate(issues: TrackedIssue[]): void {
+  if (issues.length > 0) emitter.emit(EVENT, issues);
+}
+
+// Returns the unsubscribe function
+export function subscribeTrackingUpdates(listener: TrackingListener): () => void {
+  emitter.on(EVENT, listener);
+  return () => {
+    emitter.off(EVENT, listener);
+  };
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseImport, validateTrackedIssue } from "@/app/utils/tracking-export"
+
+const record = {
+  repoKey: "acme/widgets",
+  number: 42,
+  title: "Dropdown closes when scrolling inside it",
+  html_url: "https://github.com/acme/widgets/issues/42",
+  labels: [{ name: "bug", color: "d73a4a" }],
+  assignee: { login: "alice", avatar_url: "https://avatars.githubusercontent.com/u/1024025?v=4" },
+  comments: 3,
+  updated_at: "2026-10-02T10:41:27Z",
+  status: "IN_PROGRESS",
+  dateAdded: "2026-10-01T00:00:00Z",
+  period: "2026-10",
+}
+
+function validate(value: unknown) {
+  const errors: string[] = []
+  return { issue: validateTrackedIssue(value, "Record 1", errors), errors }
+}
+
+test("a well-formed record is accepted", () => {
+  const { issue, errors } = validate(record)
+  assert.deepEqual(errors, [])
+  assert.equal(issue?.assignee?.login, "alice")
+  assert.deepEqual(issue?.labels, [{ name: "bug", color: "d73a4a" }])
+})
+
+test("labels without a string name are rejected", () => {
+  for (const labels of [[{ color: "d73a4a" }], ["bug"], [null], [{ name: 3, color: "d73a4a" }], "bug"]) {
+    const { issue, errors } = validate({ ...record, labels })
+    assert.equal(issue, null, JSON.stringify(labels))
+    assert.match(errors[0], /^Record 1: labels/)
+  }
+})
+
+test("an assignee that is not null or an object with a login is rejected", () => {
+  for (const assignee of ["alice", { name: "alice" }, { login: "" }, { login: "alice", avatar_url: 7 }, []]) {
+    const { issue, errors } = validate({ ...record, assignee })
+    assert.equal(issue, null, JSON.stringify(assignee))
+    assert.match(errors[0], /^Record 1: assignee/)
+  }
+  assert.equal(validate({ ...record, assignee: null }).issue?.assignee, null)
+})
+
+test("malformed linked pull requests and statusLocked are rejected", () => {
+  assert.equal(validate({ ...record, linkedPullRequests: [{ number: 9 }] }).issue, null)
+  assert.equal(validate({ ...record, linkedPullRequests: "#9" }).issue, null)
+  assert.equal(validate({ ...record, statusLocked: "yes" }).issue, null)
+})
+
+test("fields the dashboard doesn't know are dropped", () => {
+  const { issues, errors } = parseImport(
+    JSON.stringify([
+      {
+        ...record,
+        isAdmin: true,
+        labels: [{ name: "bug", color: "d73a4a", id: 1 }],
+        assignee: { login: "alice", site_admin: true },
+      },
+    ]),
+  )
+  assert.deepEqual(errors, [])
+  const [issue] = issues
+  assert.equal("isAdmin" in issue, false)
+  assert.deepEqual(issue.labels, [{ name: "bug", color: "d73a4a" }])
+  assert.equal("site_admin" in (issue.assignee ?? {}), false)
+})
@@ -0,0 +1,273 @@
+import { STATUS_WORKFLOW } from "@/app/config/statuses"
+import type { ContributorStatus, TrackedIssue } from "@/app/types/contributor"
+import type { LinkedPullRequest } from "@/app/types/github"
+import { sanitizeRollovers } from "@/app/utils/carry-over"
+import { groupByRepo, isIssueLabel, isIssueUser, trackedIssueKey } from "@/app/utils/helpers"
+import { sanitizeHistory } from "@/app/utils/history"
+import { isPeriodKey, migrateLegacyPeriod } from "@/app/utils/periods"
+
+export const EXPORT_FORMAT_VERSION = 1
+
+export type TrackingExport = {
+  version: number
+  exportedAt: string
+  issues: TrackedIssue[]
+}
+
+export type ImportResult = {
+  issues: TrackedIssue[]
+  // One message per rejected record, e.g. "Record 3: missing issue number"
+  errors: string[]
+}
+
+const KNOWN_STATUSES = new Set<string>(STATUS_WORKFLOW.map((definition) => definition.id))
+
+const PULL_REQUEST_STATES = new Set<string>(["OPEN", "CLOSED", "MERGED"])
+
+export function toJSON(issues: TrackedIssue[]): string {
+  const payload: TrackingExport = {
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    issues,
+  }
+  return JSON.stringify(payload, null, 2)
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCSV(issues: TrackedIssue[]): string {
+  const header = [
+    "repository",
+    "number",
+    "title",
+    "url",
+    "status",
+    "status_locked",
+    "contributor",
+    "github_assignee",
+    "notes",
+    "period",
+    "date_added",
+    "labels",
+    "rollovers",
+  ]
+  const rows = issues.map((issue) =>
+    [
+      issue.repoKey,
+      issue.number,
+      issue.title,
+      issue.html_url,
+      issue.status,
+      !!issue.statusLocked,
+      issue.contributor,
+      issue.assignee?.login,
+      issue.notes,
+      issue.period,
+      issue.dateAdded,
+      issue.labels.map((label) => label.name).join("; "),
+      issue.rollovers?.length ?? 0,
+    ]
+      .map(csvCell)
+      .join(","),
+  )
+  return [header.join(","), ...rows].join("\r\n")
+}
+
+function markdownEscape(text: string): string {
+  return text.replace(/([\\`*_[\]|<>])/g, "\\$1")
+}
+
+// Progress report for one tracking period, meant to be pasted into a GitHub discussion or issue.
+// `periodName` is the period as shown in the dashboard, e.g. "October 2026" or "Sprint 3".
+export function toMarkdownReport(issues: TrackedIssue[], periodName: string): string {
+  const lines: string[] = [`# ${periodName} Issue Tracking Report`, ""]
+
+  const merged = issues.filter((issue) => issue.status === "MERGED").length
+  lines.push(
+    `**${issues.length}** issues tracked, **${merged}** merged` +
+      (issues.length > 0 ? ` (${Math.round((merged / issues.length) * 100)}%)` : "") +
+      ".",
+    "",
+  )
+
+  lines.push("| Status | Count |", "| --- | ---: |")
+  for (const definition of STATUS_WORKFLOW) {
+    const count = issues.filter((issue) => issue.status === definition.id).length
+    if (count > 0 || definition.auto) lines.push(`| ${definition.label} | ${count} |`)
+  }
+  lines.push("")
+
+  const byRepo = groupByRepo(issues)
+  const multiRepo = Object.keys(byRepo).length > 1
+  for (const [repoKey, repoIssues] of Object.entries(byRepo)) {
+    if (multiRepo) lines.push(`## ${repoKey}`, "")
+    for (const definition of STATUS_WORKFLOW) {
+      const group = repoIssues.filter((issue) => issue.status === definition.id)
+      if (group.length === 0) continue
+      lines.push(`${multiRepo ? "###" : "##"} ${definition.label}`, "")
+      for (const issue of group) {
+        const who = issue.contributor || issue.assignee?.login
+        const note = issue.notes ? ` — ${markdownEscape(issue.notes.replace(/\s+/g, " "))}` : ""
+        lines.push(`- [#${issue.number} ${markdownEscape(issue.title)}](${issue.html_url})${who ? ` (@${who})` : ""}${note}`)
+      }
+      lines.push("")
+    }
+  }
+
+  return lines.join("\n").trimEnd() + "\n"
+}
+
+function isLinkedPullRequest(value: unknown): value is LinkedPullRequest {
+  if (typeof value !== "object" || value === null) return false
+  const pr = value as Record<string, unknown>
+  return (
+    typeof pr.number === "number" &&
+    typeof pr.title === "string" &&
+    typeof pr.url === "string" &&
+    typeof pr.state === "string" &&
+    PULL_REQUEST_STATES.has(pr.state) &&
+    (pr.author === null || typeof pr.author === "string") &&
+    typeof pr.repository === "string" &&
+    typeof pr.closesIssue === "boolean"
+  )
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+}
+
+// Checks one untrusted record and fills defaults for optional GitHub fields. Only known fields are kept,
+// so whatever else a file carries never reaches storage or the tracking server.
+// Problems are appended to `errors` under `label`, and null is returned.
+export function validateTrackedIssue(record: unknown, label: string, errors: string[]): TrackedIssue | null {
+  if (typeof record !== "object" || record === null) {
+    errors.push(`${label}: not an object`)
+    return null
+  }
+  const r = migrateLegacyPeriod(record as Record<string, unknown>)
+
+  if (typeof r.repoKey !== "string" || !r.repoKey.includes("/")) {
+    errors.push(`${label}: missing or invalid repoKey`)
+    return null
+  }
+  if (typeof r.number !== "number" || !Number.isInteger(r.number) || r.number <= 0) {
+    errors.push(`${label}: missing or invalid issue number`)
+    return null
+  }
+  if (typeof r.title !== "string" || typeof r.html_url !== "string") {
+    errors.push(`${label}: missing title or html_url`)
+    return null
+  }
+  if (typeof r.status !== "string" || !KNOWN_STATUSES.has(r.status)) {
+    errors.push(`${label}: unknown status ${JSON.stringify(r.status)}`)
+    return null
+  }
+  if (!isPeriodKey(r.period)) {
+    errors.push(`${label}: period must be a month such as 2026-10 or a period key such as sprint:abc:3`)
+    return null
+  }
+
+  const labels = r.labels ?? []
+  if (!Array.isArray(labels) || !labels.every(isIssueLabel)) {
+    errors.push(`${label}: labels must be a list of { name, color } objects`)
+    return null
+  }
+  const assignee = r.assignee ?? null
+  if (assignee !== null && !isIssueUser(assignee)) {
+    errors.push(`${label}: assignee must be null or an object with a login`)
+    return null
+  }
+  const linkedPullRequests = r.linkedPullRequests ?? undefined
+  const validPullRequests = Array.isArray(linkedPullRequests) && linkedPullRequests.every(isLinkedPullRequest)
+  if (linkedPullRequests !== undefined && !validPullRequests) {
+    errors.push(`${label}: linkedPullRequests must be a list of linked pull requests`)
+    return null
+  }
+  const statusLocked = r.statusLocked ?? undefined
+  if (statusLocked !== undefined && typeof statusLocked !== "boolean") {
+    errors.push(`${label}: statusLocked must be true or false`)
+    return null
+  }
+  const state = r.state ?? undefined
+  if (state !== undefined && state !== "open" && state !== "closed") {
+    errors.push(`${label}: state must be "open" or "closed"`)
+    return null
+  }
+
+  const dateAdded = isDate(r.dateAdded) ? r.dateAdded : new Date().toISOString()
+
+  return {
+    repoKey: r.repoKey.toLowerCase(),
+    number: r.number,
+    title: r.title,
+    html_url: r.html_url,
+    labels: labels.map(({ name, color }) => ({ name, color })),
+    assignee: assignee && { login: assignee.login, avatar_url: assignee.avatar_url },
+    comments: typeof r.comments === "number" ? r.comments : 0,
+    updated_at: typeof r.updated_at === "string" ? r.updated_at : dateAdded,
+    state,
+    linkedPullRequests: linkedPullRequests?.map((pr) => ({
+      number: pr.number,
+      title: pr.title,
+      url: pr.url,
+      state: pr.state,
+      author: pr.author,
+      repository: pr.repository,
+      closesIssue: pr.closesIssue,
+    })),
+    merged: typeof r.merged === "boolean" ? r.merged : undefined,
+    status: r.status as ContributorStatus,
+    statusLocked,
+    dateAdded,
+    mergedAt: isDate(r.mergedAt) ? r.mergedAt : undefined,
+    period: r.period,
+    contributor: typeof r.contributor === "string" ? r.contributor : undefined,
+    notes: typeof r.notes === "string" ? r.notes : undefined,
+    history: sanitizeHistory(r.history),
+    rollovers: sanitizeRollovers(r.rollovers),
+  }
+}
+
+// Accepts our own export envelope or a bare array of tracked issues
+export function parseImport(text: string): ImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { issues: [], errors: ["File is not valid JSON"] }
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === "object" && parsed !== null && Array.isArray((parsed as TrackingExport).issues)
+      ? (parsed as TrackingExport).issues
+      : null
+  if (!records) {
+    return { issues: [], errors: ["Expected an array of tracked issues or an export file"] }
+  }
+
+  const errors: string[] = []
+  const issues: TrackedIssue[] = []
+  const seen = new Set<string>()
+  records.forEach((record, index) => {
+    const issue = validateTrackedIssue(record, `Record ${index + 1}`, errors)
+    if (!issue) return
+    const key = trackedIssueKey(issue)
+    if (seen.has(key)) {
+      errors.push(`Record ${index + 1}: duplicate of ${key}`)
+      return
+    }
+    seen.add(key)
+    issues.push(issue)
+  })
+  return { issues, errors }
+}
+
+// Imported records win over existing ones with the same repo and number
+export function mergeImported(existing: TrackedIssue[], imported: TrackedIssue[]): TrackedIssue[] {
+  const importedKeys = new Set(imported.map(trackedIssueKey))
+  return [...existing.filter((issue) => !importedKeys.has(trackedIssueKey(issue))), ...imported]
+}
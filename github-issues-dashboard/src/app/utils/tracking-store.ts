@@ -0,0 +1,174 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { ContributorData, TrackedIssue } from "@/app/types/contributor";
+import type { PeriodDefinition } from "@/app/types/period";
+import { isSameTrackedIssue } from "@/app/utils/helpers";
+import { migrateLegacyPeriod, sanitizePeriodDefinitions } from "@/app/utils/periods";
+
+export type TrackingQuery = {
+  repoKey?: string | null
+  period?: string | null
+}
+
+function dataFile(): string {
+  return process.env.TRACKING_DATA_FILE ?? path.join(process.cwd(), ".data", "tracking.json");
+}
+
+// Tracking periods are kept next to the tracked issues that refer to them by key
+function periodsFile(): string {
+  return path.join(path.dirname(dataFile()), "periods.json");
+}
+
+function matches(issue: TrackedIssue, query: TrackingQuery): boolean {
+  if (query.repoKey && issue.repoKey !== query.repoKey.toLowerCase()) return false;
+  if (query.period && issue.period !== query.period) return false;
+  return true;
+}
+
+// Files written before custom periods hold `monthYear`; they are migrated here and saved on the next write
+async function readAll(): Promise<ContributorData> {
+  try {
+    const data = JSON.parse(await readFile(dataFile(), "utf8")) as ContributorData;
+    for (const repoKey of Object.keys(data)) data[repoKey] = data[repoKey].map(migrateLegacyPeriod);
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+async function readPeriods(): Promise<PeriodDefinition[]> {
+  try {
+    return sanitizePeriodDefinitions(JSON.parse(await readFile(periodsFile(), "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Write to a temp file first so a crash mid-write never leaves truncated JSON behind
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(data, null, 2));
+  await rename(temp, file);
+}
+
+// Serializes read-modify-write cycles so concurrent requests don't drop each other's changes
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function mutate<T>(change: (data: ContributorData) => T): Promise<T> {
+  return enqueue(async () => {
+    const data = await readAll();
+    const result = change(data);
+    await writeJson(dataFile(), data);
+    return result;
+  });
+}
+
+export async function listTrackedIssues(query: TrackingQuery = {}): Promise<TrackedIssue[]> {
+  await queue;
+  const data = await readAll();
+  return Object.values(data).flat().filter((issue) => matches(issue, query));
+}
+
+export async function getTrackedIssue(repoKey: string, number: number): Promise<TrackedIssue | null> {
+  const [issue] = (await listTrackedIssues({ repoKey })).filter((candidate) => candidate.number === number);
+  return issue ?? null;
+}
+
+// Returns false when the issue is already tracked
+export function createTrackedIssue(issue: TrackedIssue): Promise<boolean> {
+  return mutate((data) => {
+    const repoIssues = data[issue.repoKey] ?? [];
+    if (repoIssues.some((existing) => isSameTrackedIssue(existing, issue))) return false;
+    data[issue.repoKey] = [...repoIssues, issue];
+    return true;
+  });
+}
+
+// Inserts or replaces; returns true when the issue was newly created
+export function upsertTrackedIssue(issue: TrackedIssue): Promise<boolean> {
+  return mutate((data) => {
+    const repoIssues = data[issue.repoKey] ?? [];
+    const exists = repoIssues.some((existing) => isSameTrackedIssue(existing, issue));
+    data[issue.repoKey] = exists
+      ? repoIssues.map((existing) => (isSameTrackedIssue(existing, issue) ? issue : existing))
+      : [...repoIssues, issue];
+    return !exists;
+  });
+}
+
+// Applies `change` to the stored issue inside the write queue; resolves to null when it isn't tracked.
+// Identity fields cannot be changed.
+export function modifyTrackedIssue(
+  repoKey: string,
+  number: number,
+  change: (issue: TrackedIssue) => TrackedIssue
+): Promise<TrackedIssue | null> {
+  return mutate((data) => {
+    let updated: TrackedIssue | null = null;
+    if (!data[repoKey]) return null;
+    data[repoKey] = data[repoKey].map((existing) => {
+      if (existing.number !== number) return existing;
+      updated = { ...change(existing), repoKey, number };
+      return updated;
+    });
+    return updated;
+  });
+}
+
+export function deleteTrackedIssues(query: TrackingQuery & { number?: number }): Promise<number> {
+  return mutate((data) => {
+    let removed = 0;
+    for (const [repoKey, repoIssues] of Object.entries(data)) {
+      const kept = repoIssues.filter(
+        (issue) => !(matches(issue, query) && (query.number === undefined || issue.number === query.number))
+      );
+      removed += repoIssues.length - kept.length;
+      if (kept.length > 0) {
+        data[repoKey] = kept;
+      } else {
+        delete data[repoKey];
+      }
+    }
+    return removed;
+  });
+}
+
+export async function listPeriodDefinitions(): Promise<PeriodDefinition[]> {
+  await queue;
+  return readPeriods();
+}
+
+// Inserts or replaces by id; returns true when the definition was newly created
+export function upsertPeriodDefinition(definition: PeriodDefinition): Promise<boolean> {
+  return enqueue(async () => {
+    const definitions = await readPeriods();
+    const exists = definitions.some((existing) => existing.id === definition.id);
+    await writeJson(
+      periodsFile(),
+      exists
+        ? definitions.map((existing) => (existing.id === definition.id ? definition : existing))
+        : [...definitions, definition]
+    );
+    return !exists;
+  });
+}
+
+// Tracked issues keep their period key; it shows as a deleted period until they are moved
+export function deletePeriodDefinition(id: string): Promise<boolean> {
+  return enqueue(async () => {
+    const definitions = await readPeriods();
+    const kept = definitions.filter((definition) => definition.id !== id);
+    if (kept.length === definitions.length) return false;
+    await writeJson(periodsFile(), kept);
+    return true;
+  });
+}
@@ -0,0 +1,156 @@
+import type { TrackedIssue } from "@/app/types/contributor"
+import type { PeriodDefinition } from "@/app/types/period"
+import type { PeriodListResponse, TrackingListResponse } from "@/app/types/tracking"
+import type { TrackingEventPayload } from "@/app/types/webhooks"
+import { trackedIssueKey } from "@/app/utils/helpers"
+import { isStringList, loadFromLocalStorage, saveToLocalStorage } from "@/app/utils/storage"
+
+export type SyncStatus = "synced" | "syncing" | "offline"
+
+export function trackingItemPath(issue: Pick<TrackedIssue, "repoKey" | "number">): string {
+  const [owner, repo] = issue.repoKey.split("/")
+  return `/api/tracking/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${issue.number}`
+}
+
+// Resolves to null when the server store can't be reached, so callers fall back to the browser copy
+export async function fetchServerTrackedIssues(): Promise<TrackedIssue[] | null> {
+  try {
+    const res = await fetch("/api/tracking", { cache: "no-store" })
+    if (!res.ok) return null
+    const data: TrackingListResponse = await res.json()
+    return data.issues
+  } catch {
+    return null
+  }
+}
+
+// Tracking periods are shared like tracked issues, so every dashboard resolves the same period keys
+export async function fetchServerPeriods(): Promise<PeriodDefinition[] | null> {
+  try {
+    const res = await fetch("/api/tracking/periods", { cache: "no-store" })
+    if (!res.ok) return null
+    const data: PeriodListResponse = await res.json()
+    return data.definitions
+  } catch {
+    return null
+  }
+}
+
+type Changes<T> = {
+  upserts: T[]
+  deletions: T[]
+}
+
+export type TrackingChanges = Changes<TrackedIssue>
+export type PeriodChanges = Changes<PeriodDefinition>
+
+// Keys of the records the server held at the last sync, kept across reloads so that
+// a record missing from the server can be told apart from one created locally while offline
+const SYNCED_KEYS = "syncedTrackingKeys"
+const SYNCED_PERIOD_IDS = "syncedPeriodIds"
+
+function loadKeys(storageKey: string): Set<string> {
+  return new Set(loadFromLocalStorage(storageKey, [], isStringList))
+}
+
+export function loadSyncedKeys(): Set<string> {
+  return loadKeys(SYNCED_KEYS)
+}
+
+export function saveSyncedKeys(issues: TrackedIssue[]) {
+  saveToLocalStorage(SYNCED_KEYS, issues.map(trackedIssueKey))
+}
+
+export function loadSyncedPeriodIds(): Set<string> {
+  return loadKeys(SYNCED_PERIOD_IDS)
+}
+
+export function saveSyncedPeriodIds(definitions: PeriodDefinition[]) {
+  saveToLocalStorage(SYNCED_PERIOD_IDS, definitions.map((definition) => definition.id))
+}
+
+// Server copies win. Local-only records the server never had are kept so they are uploaded; ones it had at
+// the last sync were deleted by someone else since, and are dropped instead of being brought back.
+function reconcile<T>(local: T[], server: T[], synced: Set<string>, keyOf: (item: T) => string): T[] {
+  const serverKeys = new Set(server.map(keyOf))
+  const kept = local.filter((item) => !serverKeys.has(keyOf(item)) && !synced.has(keyOf(item)))
+  return [...kept, ...server]
+}
+
+export function reconcileWithServer(
+  local: TrackedIssue[],
+  server: TrackedIssue[],
+  syncedKeys: Set<string>,
+): TrackedIssue[] {
+  return reconcile(local, server, syncedKeys, trackedIssueKey)
+}
+
+export function reconcilePeriodsWithServer(
+  local: PeriodDefinition[],
+  server: PeriodDefinition[],
+  syncedIds: Set<string>,
+): PeriodDefinition[] {
+  return reconcile(local, server, syncedIds, (definition) => definition.id)
+}
+
+function diff<T>(previous: T[], next: T[], keyOf: (item: T) => string): Changes<T> {
+  const before = new Map(previous.map((item) => [keyOf(item), JSON.stringify(item)]))
+  const afterKeys = new Set(next.map(keyOf))
+
+  return {
+    upserts: next.filter((item) => before.get(keyOf(item)) !== JSON.stringify(item)),
+    deletions: previous.filter((item) => !afterKeys.has(keyOf(item))),
+  }
+}
+
+export function diffTrackedIssues(previous: TrackedIssue[], next: TrackedIssue[]): TrackingChanges {
+  return diff(previous, next, trackedIssueKey)
+}
+
+export function diffPeriodDefinitions(previous: PeriodDefinition[], next: PeriodDefinition[]): PeriodChanges {
+  return diff(previous, next, (definition) => definition.id)
+}
+
+// Returns false if any request failed; the caller keeps its baseline and retries on the next change
+async function pushChanges<T>({ upserts, deletions }: Changes<T>, pathOf: (item: T) => string): Promise<boolean> {
+  try {
+    const results = await Promise.all([
+      ...upserts.map((item) =>
+        fetch(pathOf(item), {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(item),
+        }),
+      ),
+      ...deletions.map((item) => fetch(pathOf(item), { method: "DELETE" })),
+    ])
+    // A 404 on delete means someone else already removed it
+    return results.every((res) => res.ok || res.status === 404)
+  } catch {
+    return false
+  }
+}
+
+export function pushTrackingChanges(changes: TrackingChanges): Promise<boolean> {
+  return pushChanges(changes, trackingItemPath)
+}
+
+export function pushPeriodChanges(changes: PeriodChanges): Promise<boolean> {
+  return pushChanges(changes, (definition) => `/api/tracking/periods/${encodeURIComponent(definition.id)}`)
+}
+
+// Live updates from /api/tracking/events (e.g. after a GitHub webhook); returns a function that closes the stream.
+// EventSource reconnects by itself, so a server restart only pauses updates.
+export function subscribeToTrackingEvents(onUpdate: (issues: TrackedIssue[]) => void): () => void {
+  if (typeof EventSource === "undefined") return () => {}
+  const source = new EventSource("/api/tracking/events")
+  source.addEventListener("tracking", (event) => {
+    try {
+      const data: TrackingEventPayload = JSON.parse((event as MessageEvent<string>).data)
+      onUpdate(data.issues)
+    } catch {
+      // Ignore malformed messages; the next full sync corrects any drift
+    }
+  })
+  return () => source.close()
+}
@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Kept free of app imports so scripts/check-webhook-fixtures.mjs can load it without a server or bundler
+
+export type IssueReference = {
+  repoKey: string
+  number: number
+};
+
+// `close #12` or `fixes owner/repo#12`; bare `#12` mentions and hex colours such as `#123456` are not links
+const ISSUE_REFERENCE =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/gi;
+
+// GitHub signs the raw body with the webhook secret: "sha256=<hex hmac>"
+export function verifySignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Issues a pull request body closes, keyed like tracked issues
+export function referencedIssues(body: string | null, repoKey: string): Map<string, IssueReference> {
+  const references = new Map<string, IssueReference>();
+  for (const [, otherRepo, number] of (body ?? "").matchAll(ISSUE_REFERENCE)) {
+    const target = otherRepo ? otherRepo.toLowerCase() : repoKey;
+    references.set(`${target}#${number}`, { repoKey: target, number: Number(number) });
+  }
+  return references;
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, test } from "node:test"
+import { fileURLToPath } from "node:url"
+import type { TrackedIssue } from "@/app/types/contributor"
+import { getTrackedIssue, upsertTrackedIssue } from "@/app/utils/tracking-store"
+import { handleWebhookEvent } from "@/app/utils/webhooks"
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "../../../fixtures/webhooks")
+
+async function fixture(name: string): Promise<unknown> {
+  return JSON.parse(await readFile(path.join(fixturesDir, name), "utf8"))
+}
+
+const tracked: TrackedIssue = {
+  repoKey: "acme/widgets",
+  number: 42,
+  title: "Dropdown closes when scrolling inside it",
+  html_url: "https://github.com/acme/widgets/issues/42",
+  labels: [{ name: "bug", color: "d73a4a" }],
+  assignee: { login: "alice" },
+  comments: 3,
+  updated_at: "2026-10-02T10:41:27Z",
+  state: "open",
+  status: "IN_PROGRESS",
+  dateAdded: "2026-10-01T00:00:00Z",
+  period: "2026-10",
+}
+
+let dataDir = ""
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "webhooks-test-"))
+  process.env.TRACKING_DATA_FILE = path.join(dataDir, "tracking.json")
+})
+
+after(async () => {
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+test("closing and reopening an issue on GitHub updates the tracked issue's state", async () => {
+  await upsertTrackedIssue(tracked)
+
+  const closed = await handleWebhookEvent("issues", await fixture("issues.closed.json"))
+  assert.equal(closed.handled, true)
+  assert.equal(closed.updated[0]?.state, "closed")
+  assert.equal((await getTrackedIssue("acme/widgets", 42))?.state, "closed")
+
+  const reopened = await handleWebhookEvent("issues", await fixture("issues.reopened.json"))
+  assert.equal(reopened.updated[0]?.state, "open")
+  assert.equal((await getTrackedIssue("acme/widgets", 42))?.state, "open")
+  assert.equal((await getTrackedIssue("acme/widgets", 42))?.updated_at, "2026-10-17T14:05:00Z")
+})
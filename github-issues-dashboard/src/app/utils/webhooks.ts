@@ -0,0 +1,121 @@
+import type { TrackedIssue } from "@/app/types/contributor";
+import type { Issue, LinkedPullRequest, PullRequestState } from "@/app/types/github";
+import type {
+  IssueCommentPayload,
+  IssuesPayload,
+  PullRequestPayload,
+  WebhookIssue,
+} from "@/app/types/webhooks";
+import { applyStatus, deriveStatus, repoKeyOf } from "@/app/utils/helpers";
+import { recordChanges } from "@/app/utils/history";
+import { isMerged } from "@/app/utils/pull-requests";
+import { modifyTrackedIssue } from "@/app/utils/tracking-store";
+import { referencedIssues } from "@/app/utils/webhook-references";
+
+export { verifySignature } from "@/app/utils/webhook-references";
+
+export const SIGNATURE_HEADER = "x-hub-signature-256";
+export const EVENT_HEADER = "x-github-event";
+
+export type WebhookResult = {
+  handled: boolean
+  updated: TrackedIssue[]
+};
+
+function repoKeyFromFullName(fullName: string): string {
+  const [owner, repo] = fullName.split("/");
+  return repoKeyOf(owner ?? "", repo ?? "");
+}
+
+function issueFields(issue: WebhookIssue): Partial<Issue> {
+  return {
+    title: issue.title,
+    html_url: issue.html_url,
+    labels: issue.labels.map(({ name, color }) => ({ name, color })),
+    assignee: issue.assignee ? { login: issue.assignee.login, avatar_url: issue.assignee.avatar_url } : null,
+    comments: issue.comments,
+    updated_at: issue.updated_at,
+    state: issue.state,
+  };
+}
+
+// Same rules as a dashboard refresh: GitHub-owned fields are replaced and unlocked statuses re-derived
+function refreshTracked(tracked: TrackedIssue, changes: Partial<Issue>): TrackedIssue {
+  const next = { ...tracked, ...changes };
+  const status = tracked.statusLocked ? tracked.status : deriveStatus(next);
+  return recordChanges(tracked, applyStatus(next, status), "auto");
+}
+
+async function refreshIssue(repoKey: string, number: number, changes: Partial<Issue>): Promise<TrackedIssue[]> {
+  const updated = await modifyTrackedIssue(repoKey, number, (tracked) => refreshTracked(tracked, changes));
+  return updated ? [updated] : [];
+}
+
+function pullRequestState(pull: PullRequestPayload["pull_request"]): PullRequestState {
+  if (pull.merged) return "MERGED";
+  return pull.state === "closed" ? "CLOSED" : "OPEN";
+}
+
+async function handleIssues(payload: IssuesPayload): Promise<TrackedIssue[]> {
+  const repoKey = repoKeyFromFullName(payload.repository.full_name);
+  return refreshIssue(repoKey, payload.issue.number, issueFields(payload.issue));
+}
+
+async function handleIssueComment(payload: IssueCommentPayload): Promise<TrackedIssue[]> {
+  const repoKey = repoKeyFromFullName(payload.repository.full_name);
+  return refreshIssue(repoKey, payload.issue.number, {
+    comments: payload.issue.comments,
+    updated_at: payload.issue.updated_at,
+  });
+}
+
+// References removed from an edited PR body are left in place; the next refresh from GitHub drops them
+async function handlePullRequest(payload: PullRequestPayload): Promise<TrackedIssue[]> {
+  const pull = payload.pull_request;
+  const repoKey = repoKeyFromFullName(payload.repository.full_name);
+  const updated: TrackedIssue[] = [];
+
+  for (const reference of referencedIssues(pull.body, repoKey).values()) {
+    const issue = await modifyTrackedIssue(reference.repoKey, reference.number, (tracked) => {
+      const existing = tracked.linkedPullRequests ?? [];
+      const previous = existing.find(
+        (pr) => pr.number === pull.number && pr.repository.toLowerCase() === repoKey
+      );
+      const linked: LinkedPullRequest = {
+        number: pull.number,
+        title: pull.title,
+        url: pull.html_url,
+        state: pullRequestState(pull),
+        author: pull.user?.login ?? null,
+        repository: payload.repository.full_name,
+        closesIssue: true,
+      };
+      const linkedPullRequests = previous
+        ? existing.map((pr) => (pr === previous ? linked : pr))
+        : [...existing, linked];
+      return refreshTracked(tracked, { linkedPullRequests, merged: isMerged(linkedPullRequests) });
+    });
+    if (issue) updated.push(issue);
+  }
+  return updated;
+}
+
+// Applies one delivery to the tracking store; untracked issues are ignored
+export async function handleWebhookEvent(event: string, payload: unknown): Promise<WebhookResult> {
+  const body = payload as Partial<IssuesPayload & PullRequestPayload> | null;
+  const subject = event === "pull_request" ? body?.pull_request : body?.issue;
+  if (typeof body?.repository?.full_name !== "string" || typeof subject?.number !== "number") {
+    return { handled: false, updated: [] };
+  }
+
+  switch (event) {
+    case "issues":
+      return { handled: true, updated: await handleIssues(payload as IssuesPayload) };
+    case "issue_comment":
+      return { handled: true, updated: await handleIssueComment(payload as IssueCommentPayload) };
+    case "pull_request":
+      return { handled: true, updated: await handlePullRequest(payload as PullRequestPayload) };
+    default:
+      return { handled: false, updated: [] };
+  }
+}